@@ -0,0 +1,102 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { createAppwriteAccountService } from "./accounts";
+import { ConflictError } from "./errors";
+
+type Reply = { status: number; body?: unknown };
+
+// Serves Appwrite's API from `reply`, recording every request it gets.
+const fakeAppwrite = async (reply: (method: string, path: string, body: any) => Reply) => {
+  const requests: { method: string; path: string; body: any }[] = [];
+  const server = createServer((req, res) => {
+    let text = "";
+    req.on("data", (chunk) => (text += chunk));
+    req.on("end", () => {
+      const request = {
+        method: req.method ?? "GET",
+        path: decodeURIComponent(req.url ?? "/"),
+        body: text ? JSON.parse(text) : undefined,
+      };
+      requests.push(request);
+      const { status, body } = reply(request.method, request.path, request.body);
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(body === undefined ? undefined : JSON.stringify(body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  const accounts = createAppwriteAccountService({
+    endpoint: `http://127.0.0.1:${port}/v1`,
+    projectId: "project",
+    apiKey: "key",
+    databaseId: "db",
+    userCollectionId: "users",
+  });
+  return { accounts, requests, close: () => new Promise((resolve) => server.close(resolve)) };
+};
+
+const DOCUMENTS = "/v1/databases/db/collections/users/documents";
+const FORM = { email: "new@example.com", password: "hunter2hunter2", username: "newbie" };
+
+describe("createAppwriteAccountService", () => {
+  it("deletes the new account when its profile can't be written", async () => {
+    const { accounts, requests, close } = await fakeAppwrite((method, path) => {
+      if (method === "GET") return { status: 200, body: { total: 0, documents: [] } };
+      if (path === "/v1/users") return { status: 201, body: {} };
+      if (path === DOCUMENTS) return { status: 409, body: { type: "document_already_exists" } };
+      return { status: 204 };
+    });
+    try {
+      await assert.rejects(accounts.signUp(FORM), ConflictError);
+
+      const created = requests.find(({ path }) => path === "/v1/users");
+      const deleted = requests.find(({ method }) => method === "DELETE");
+      assert.equal(deleted?.path, `/v1/users/${created?.body.userId}`);
+    } finally {
+      await close();
+    }
+  });
+
+  it("checks the username by its lower-cased key", async () => {
+    const { accounts, requests, close } = await fakeAppwrite(() => ({
+      status: 200,
+      body: { total: 1, documents: [] },
+    }));
+    try {
+      await assert.rejects(accounts.signUp(FORM), ConflictError);
+      assert.match(requests[0].path, /"attribute":"usernameKey","values":\["newbie"\]/);
+      assert.equal(requests.length, 1);
+    } finally {
+      await close();
+    }
+  });
+
+  it("keys a legacy username and renames it when the key is taken", async () => {
+    const legacy = {
+      $id: "doc1",
+      accountId: "acct1234",
+      email: "demo@example.com",
+      username: "Demo",
+      avatar: "avatar",
+    };
+    const { accounts, requests, close } = await fakeAppwrite((method, _path, body) => {
+      if (method === "GET") return { status: 200, body: { total: 1, documents: [legacy] } };
+      if (body.data.username === "Demo") return { status: 409, body: { type: "document_already_exists" } };
+      return { status: 200, body: { ...legacy, ...body.data } };
+    });
+    try {
+      const profile = await accounts.repairProfile("acct1234");
+
+      assert.equal(profile.username, "demo_1234");
+      const patches = requests.filter(({ method }) => method === "PATCH");
+      assert.deepEqual(
+        patches.map(({ body }) => body.data.usernameKey),
+        ["demo", "demo_1234"]
+      );
+    } finally {
+      await close();
+    }
+  });
+});
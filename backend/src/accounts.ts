@@ -0,0 +1,345 @@
+import { randomUUID } from "crypto";
+import { ConflictError, HttpError, NotFoundError } from "./errors";
+import {
+  SignUpBody,
+  USERNAME_MAX_LENGTH,
+  checkUsername,
+  normalizeUsername,
+} from "./validation";
+
+/** A user document, the profile the app shows for an account. */
+export interface UserProfile {
+  id: string;
+  /** The Appwrite account the profile belongs to. */
+  accountId: string;
+  email: string;
+  username: string;
+  avatar: string;
+}
+
+/**
+ * Creates accounts together with their profiles. Clients can't write user
+ * documents themselves, so every username goes through the checks here.
+ */
+export interface AccountService {
+  /** Creates the account and its profile, or neither. */
+  signUp(form: SignUpBody): Promise<UserProfile>;
+  /**
+   * Gives an account that has no profile, or an incomplete one, a complete
+   * profile; e.g. after a sign-up that was cut short.
+   */
+  repairProfile(accountId: string): Promise<UserProfile>;
+}
+
+export interface AppwriteAdminConfig {
+  endpoint: string;
+  projectId: string;
+  /** A server API key with the users.* and documents.* scopes. */
+  apiKey: string;
+  databaseId: string;
+  userCollectionId: string;
+}
+
+const usernameTaken = () =>
+  new ConflictError("username_taken", { field: "username", message: "is already taken" });
+
+const emailTaken = () =>
+  new ConflictError("email_taken", { field: "email", message: "is already registered" });
+
+// Appwrite ids: at most 36 characters, starting with a letter or digit.
+const newId = () => randomUUID().replace(/-/g, "");
+
+/** A valid username made from an account's name or email, for repairs. */
+export function suggestUsername(name: string, email: string): string {
+  const fromName = normalizeUsername(name.replace(/[^a-zA-Z0-9_.]/g, ""));
+  const fromEmail = normalizeUsername(email.split("@")[0].replace(/[^a-zA-Z0-9_.]/g, ""));
+  const valid = [fromName, fromEmail].find((candidate) => !checkUsername(candidate));
+  if (valid) return valid;
+  const cleaned = (fromName || fromEmail).replace(/^[^a-z]+/, "");
+  return `user${cleaned}`.slice(0, USERNAME_MAX_LENGTH);
+}
+
+// Keeps a suggested username that's taken unique by suffixing part of the
+// account id, which is unique already.
+const withSuffix = (username: string, accountId: string) =>
+  `${username.slice(0, USERNAME_MAX_LENGTH - 5)}_${accountId.slice(-4).toLowerCase()}`;
+
+const isComplete = (profile: Partial<UserProfile> & { usernameKey?: unknown }) =>
+  !!profile.email &&
+  !!profile.username &&
+  !!profile.avatar &&
+  profile.usernameKey === normalizeUsername(profile.username);
+
+/** Appwrite's answer to a request it turned down. */
+class AppwriteError extends Error {
+  constructor(
+    readonly status: number,
+    readonly type: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "AppwriteError";
+  }
+}
+
+interface UserDocument {
+  $id: string;
+  accountId?: string;
+  email?: string;
+  username?: string;
+  usernameKey?: string;
+  avatar?: string;
+}
+
+// Calls Appwrite's server API, throwing an AppwriteError for any refusal.
+const createAppwriteCaller =
+  ({ endpoint, projectId, apiKey }: AppwriteAdminConfig) =>
+  async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetch(`${endpoint}${path}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          "X-Appwrite-Project": projectId,
+          "X-Appwrite-Key": apiKey,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch {
+      throw new HttpError(503, "accounts_unavailable", "Could not reach Appwrite");
+    }
+    if (response.status === 204) return undefined as T;
+    const json = (await response.json().catch(() => ({}))) as T & { type?: string; message?: string };
+    if (!response.ok) {
+      throw new AppwriteError(response.status, json.type ?? "", json.message ?? "");
+    }
+    return json;
+  };
+
+/** Builds the query string of a document list request. */
+const listQueries = (...queries: { method: string; attribute?: string; values?: unknown[] }[]) =>
+  "?" + queries.map((query) => `queries[]=${encodeURIComponent(JSON.stringify(query))}`).join("&");
+
+const toProfile = (document: UserDocument): UserProfile => ({
+  id: document.$id,
+  accountId: document.accountId ?? "",
+  email: document.email ?? "",
+  username: document.username ?? "",
+  avatar: document.avatar ?? "",
+});
+
+/**
+ * Talks to Appwrite's server API with an API key. Usernames are kept unique
+ * by a unique index on the user collection's `usernameKey`, so two sign-ups
+ * racing for one name can't both get it.
+ */
+export function createAppwriteAccountService(config: AppwriteAdminConfig): AccountService {
+  const { endpoint, projectId, databaseId, userCollectionId } = config;
+  const documentsPath = `/databases/${databaseId}/collections/${userCollectionId}/documents`;
+  const call = createAppwriteCaller(config);
+
+  // Anything Appwrite refuses that isn't handled where it's called is a
+  // misconfiguration on this side, not the caller's fault.
+  const unexpected = (error: unknown) =>
+    error instanceof AppwriteError
+      ? new HttpError(502, "accounts_unavailable", "Appwrite refused the request")
+      : error;
+
+  const findByAccount = async (accountId: string) => {
+    const { documents } = await call<{ documents: UserDocument[] }>(
+      "GET",
+      documentsPath + listQueries({ method: "equal", attribute: "accountId", values: [accountId] })
+    );
+    return documents[0];
+  };
+
+  const isAvailable = async (username: string) => {
+    const { total } = await call<{ total: number }>(
+      "GET",
+      documentsPath +
+        listQueries(
+          { method: "equal", attribute: "usernameKey", values: [normalizeUsername(username)] },
+          { method: "limit", values: [1] }
+        )
+    );
+    return total === 0;
+  };
+
+  const avatarFor = (username: string) =>
+    `${endpoint}/avatars/initials?name=${encodeURIComponent(username)}&project=${projectId}`;
+
+  // Writes the profile; a 409 can only come from the unique username index.
+  const writeProfile = async (
+    accountId: string,
+    email: string,
+    username: string,
+    existing?: UserDocument
+  ) => {
+    const data = {
+      accountId,
+      email,
+      username,
+      usernameKey: normalizeUsername(username),
+      avatar: existing?.avatar || avatarFor(username),
+    };
+    try {
+      const document = existing
+        ? await call<UserDocument>("PATCH", `${documentsPath}/${existing.$id}`, { data })
+        : await call<UserDocument>("POST", documentsPath, { documentId: newId(), data });
+      return toProfile(document);
+    } catch (error) {
+      if (error instanceof AppwriteError && error.status === 409) throw usernameTaken();
+      throw error;
+    }
+  };
+
+  return {
+    async signUp({ email, password, username }) {
+      try {
+        // Checked first, so a taken name rarely costs an account round trip.
+        if (!(await isAvailable(username))) throw usernameTaken();
+
+        const accountId = newId();
+        try {
+          await call("POST", "/users", { userId: accountId, email, password, name: username });
+        } catch (error) {
+          if (error instanceof AppwriteError && error.status === 409) throw emailTaken();
+          throw error;
+        }
+
+        try {
+          return await writeProfile(accountId, email, username);
+        } catch (error) {
+          // Best effort: an account left behind gets its profile from
+          // repairProfile on its first sign-in.
+          await call("DELETE", `/users/${accountId}`).catch(() => {});
+          throw error;
+        }
+      } catch (error) {
+        throw unexpected(error);
+      }
+    },
+
+    async repairProfile(accountId) {
+      try {
+        const existing = await findByAccount(accountId);
+        if (existing && isComplete(existing)) return toProfile(existing);
+
+        let account: { name: string; email: string };
+        try {
+          account = await call("GET", `/users/${accountId}`);
+        } catch (error) {
+          if (error instanceof AppwriteError && error.status === 404) {
+            throw new NotFoundError("Account");
+          }
+          throw error;
+        }
+
+        const email = existing?.email || account.email;
+        // A username the account already has is kept, unless it only
+        // differs in case from one that's taken.
+        const kept = existing?.username;
+        if (kept) {
+          try {
+            return await writeProfile(accountId, email, kept, existing);
+          } catch (error) {
+            if (!(error instanceof ConflictError)) throw error;
+            const renamed = withSuffix(normalizeUsername(kept), accountId);
+            return await writeProfile(accountId, email, renamed, existing);
+          }
+        }
+
+        const suggested = suggestUsername(account.name, account.email);
+        const username = (await isAvailable(suggested))
+          ? suggested
+          : withSuffix(suggested, accountId);
+        return await writeProfile(accountId, email, username, existing);
+      } catch (error) {
+        throw unexpected(error);
+      }
+    },
+  };
+}
+
+/**
+ * Fills in `usernameKey` on user documents written before it existed, so the
+ * unique index covers them too. A document whose key is already taken, by a
+ * username that only differs in case, is left alone and its id returned; the
+ * account is renamed by `repairProfile` on its next sign-in.
+ */
+export async function backfillUsernameKeys(config: AppwriteAdminConfig) {
+  const call = createAppwriteCaller(config);
+  const documentsPath = `/databases/${config.databaseId}/collections/${config.userCollectionId}/documents`;
+  let updated = 0;
+  const clashes: string[] = [];
+  let cursor: string | undefined;
+  for (;;) {
+    const { documents } = await call<{ documents: UserDocument[] }>(
+      "GET",
+      documentsPath +
+        listQueries(
+          { method: "isNull", attribute: "usernameKey" },
+          { method: "limit", values: [100] },
+          ...(cursor ? [{ method: "cursorAfter", values: [cursor] }] : [])
+        )
+    );
+    if (documents.length === 0) return { updated, clashes };
+    for (const document of documents) {
+      if (!document.username) continue;
+      try {
+        await call("PATCH", `${documentsPath}/${document.$id}`, {
+          data: { usernameKey: normalizeUsername(document.username) },
+        });
+        updated += 1;
+      } catch (error) {
+        if (!(error instanceof AppwriteError && error.status === 409)) throw error;
+        clashes.push(document.$id);
+      }
+    }
+    cursor = documents[documents.length - 1].$id;
+  }
+}
+
+/** Keeps accounts and profiles in process memory; used in test mode. */
+export function createMemoryAccountService(): AccountService {
+  const accounts = new Map<string, { name: string; email: string }>();
+  const profiles = new Map<string, UserProfile>();
+
+  const isAvailable = (username: string) =>
+    ![...profiles.values()].some(
+      (profile) => normalizeUsername(profile.username) === normalizeUsername(username)
+    );
+
+  const writeProfile = (accountId: string, email: string, username: string) => {
+    const profile: UserProfile = {
+      id: profiles.get(accountId)?.id ?? newId(),
+      accountId,
+      email,
+      username,
+      avatar: `avatar:${username}`,
+    };
+    profiles.set(accountId, profile);
+    return profile;
+  };
+
+  return {
+    async signUp({ email, username }) {
+      if (!isAvailable(username)) throw usernameTaken();
+      if ([...accounts.values()].some((account) => account.email === email)) throw emailTaken();
+      const accountId = newId();
+      accounts.set(accountId, { name: username, email });
+      return writeProfile(accountId, email, username);
+    },
+
+    async repairProfile(accountId) {
+      const existing = profiles.get(accountId);
+      if (existing) return existing;
+      const account = accounts.get(accountId);
+      if (!account) throw new NotFoundError("Account");
+      const suggested = suggestUsername(account.name, account.email);
+      const username = isAvailable(suggested) ? suggested : withSuffix(suggested, accountId);
+      return writeProfile(accountId, account.email, username);
+    },
+  };
+}
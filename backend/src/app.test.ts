@@ -0,0 +1,282 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { request } from "node:http";
+import { AddressInfo } from "node:net";
+import { UserProfile, createMemoryAccountService } from "./accounts";
+import { ApiRequest, createApp } from "./app";
+import { createStubDetector } from "./detection";
+import { AppraisalRecord, Page, createMemoryStore } from "./store";
+
+// The stub detector never decodes the image, so the JPEG magic bytes will do.
+const IMAGE = Buffer.from([0xff, 0xd8, 0xff, 0xe0]).toString("base64");
+
+const setup = () => {
+  const app = createApp({ mode: "test" });
+  const as = (userId: string) => (request: ApiRequest) =>
+    app.inject({ ...request, headers: { authorization: `Bearer ${userId}` } });
+  return { app, alice: as("alice"), bob: as("bob") };
+};
+
+const errorCode = (body: unknown) => (body as { error: { code: string } }).error.code;
+
+describe("POST /v1/appraisals", () => {
+  it("detects, values and saves the appraisal for the token's user", async () => {
+    const { alice } = setup();
+    const { status, body } = await alice({ method: "POST", url: "/v1/appraisals", body: { image: IMAGE } });
+
+    assert.equal(status, 201);
+    const record = body as AppraisalRecord;
+    assert.equal(record.userId, "alice");
+    assert.equal(record.detections[0].label, "clock");
+    assert.equal(record.valuation?.objectName, "clock");
+    assert.equal(record.valuation?.source, "class");
+  });
+
+  it("accepts a data URL", async () => {
+    const { alice } = setup();
+    const image = `data:image/jpeg;base64,${IMAGE}`;
+    const { status } = await alice({ method: "POST", url: "/v1/appraisals", body: { image } });
+    assert.equal(status, 201);
+  });
+
+  it("rejects an image that isn't a JPEG", async () => {
+    const { alice } = setup();
+    const image = Buffer.from("GIF89a").toString("base64");
+    const { status, body } = await alice({ method: "POST", url: "/v1/appraisals", body: { image } });
+
+    assert.equal(status, 400);
+    assert.deepEqual((body as { error: { details: unknown } }).error.details, [
+      { field: "image", message: "must be a JPEG" },
+    ]);
+  });
+
+  it("rejects a missing body", async () => {
+    const { alice } = setup();
+    const { status, body } = await alice({ method: "POST", url: "/v1/appraisals" });
+    assert.equal(status, 400);
+    assert.equal(errorCode(body), "validation_failed");
+  });
+
+  it("needs a bearer token", async () => {
+    const { app } = setup();
+    const { status, body } = await app.inject({ method: "POST", url: "/v1/appraisals", body: { image: IMAGE } });
+    assert.equal(status, 401);
+    assert.equal(errorCode(body), "unauthorized");
+  });
+});
+
+describe("GET /v1/appraisals/:id", () => {
+  it("returns the caller's appraisal", async () => {
+    const { alice } = setup();
+    const created = await alice({ method: "POST", url: "/v1/appraisals", body: { image: IMAGE } });
+    const { id } = created.body as AppraisalRecord;
+
+    const { status, body } = await alice({ method: "GET", url: `/v1/appraisals/${id}` });
+    assert.equal(status, 200);
+    assert.deepEqual(body, created.body);
+  });
+
+  it("hides other users' appraisals", async () => {
+    const { alice, bob } = setup();
+    const created = await alice({ method: "POST", url: "/v1/appraisals", body: { image: IMAGE } });
+    const { id } = created.body as AppraisalRecord;
+
+    const { status } = await bob({ method: "GET", url: `/v1/appraisals/${id}` });
+    assert.equal(status, 404);
+  });
+
+  it("rejects a malformed path segment", async () => {
+    const { alice } = setup();
+    const { status, body } = await alice({ method: "GET", url: "/v1/appraisals/%E0%A4%A" });
+    assert.equal(status, 400);
+    assert.equal(errorCode(body), "bad_request");
+  });
+});
+
+describe("GET /v1/users/:userId/appraisals", () => {
+  const seed = async (count: number) => {
+    const context = setup();
+    const ids: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const { body } = await context.alice({ method: "POST", url: "/v1/appraisals", body: { image: IMAGE } });
+      ids.push((body as AppraisalRecord).id);
+    }
+    await context.bob({ method: "POST", url: "/v1/appraisals", body: { image: IMAGE } });
+    return { ...context, newestFirst: ids.reverse() };
+  };
+
+  it("pages through the caller's appraisals, newest first", async () => {
+    const { alice, newestFirst } = await seed(5);
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const query: string = cursor ? `?limit=2&cursor=${cursor}` : "?limit=2";
+      const { status, body } = await alice({ method: "GET", url: `/v1/users/alice/appraisals${query}` });
+      assert.equal(status, 200);
+      const page = body as Page<AppraisalRecord>;
+      seen.push(...page.items.map((item) => item.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    assert.deepEqual(seen, newestFirst);
+  });
+
+  it("defaults to 20 per page", async () => {
+    const { alice } = await seed(1);
+    const { body } = await alice({ method: "GET", url: "/v1/users/alice/appraisals" });
+    assert.deepEqual(body, {
+      items: [(body as Page<AppraisalRecord>).items[0]],
+      nextCursor: null,
+    });
+  });
+
+  it("rejects an out of range limit", async () => {
+    const { alice } = await seed(1);
+    const { status, body } = await alice({ method: "GET", url: "/v1/users/alice/appraisals?limit=0" });
+    assert.equal(status, 400);
+    assert.equal(errorCode(body), "validation_failed");
+  });
+
+  it("rejects a cursor that isn't one of the caller's appraisals", async () => {
+    const { alice } = await seed(1);
+    const { status, body } = await alice({ method: "GET", url: "/v1/users/alice/appraisals?cursor=unknown" });
+    assert.equal(status, 400);
+    assert.equal(errorCode(body), "validation_failed");
+  });
+
+  it("forbids listing someone else's appraisals", async () => {
+    const { bob } = await seed(1);
+    const { status, body } = await bob({ method: "GET", url: "/v1/users/alice/appraisals" });
+    assert.equal(status, 403);
+    assert.equal(errorCode(body), "forbidden");
+  });
+});
+
+describe("POST /v1/signup", () => {
+  const signUp = (app: ReturnType<typeof createApp>, body: unknown) =>
+    app.inject({ method: "POST", url: "/v1/signup", body });
+  const FORM = { email: " New@Example.com ", password: "hunter2hunter2", username: "NewBie" };
+
+  it("creates the account and its profile, normalized, without a token", async () => {
+    const { app } = setup();
+    const { status, body } = await signUp(app, FORM);
+
+    assert.equal(status, 201);
+    const profile = body as UserProfile;
+    assert.equal(profile.email, "new@example.com");
+    assert.equal(profile.username, "newbie");
+    assert.ok(profile.accountId);
+  });
+
+  it("reports every invalid field", async () => {
+    const { app } = setup();
+    const { status, body } = await signUp(app, { email: "nope", password: "short", username: "1a" });
+
+    assert.equal(status, 400);
+    const { details } = (body as { error: { details: { field: string }[] } }).error;
+    assert.deepEqual(details.map(({ field }) => field), ["email", "password", "username"]);
+  });
+
+  it("rejects a username taken in any case", async () => {
+    const { app } = setup();
+    await signUp(app, FORM);
+    const { status, body } = await signUp(app, { ...FORM, email: "other@example.com", username: "NEWBIE" });
+
+    assert.equal(status, 409);
+    assert.equal(errorCode(body), "username_taken");
+  });
+
+  it("rejects an email that's already registered", async () => {
+    const { app } = setup();
+    await signUp(app, FORM);
+    const { status, body } = await signUp(app, { ...FORM, username: "someone" });
+
+    assert.equal(status, 409);
+    assert.equal(errorCode(body), "email_taken");
+  });
+});
+
+describe("POST /v1/users/me/profile", () => {
+  it("returns the caller's profile", async () => {
+    const { app } = setup();
+    const created = await app.inject({
+      method: "POST",
+      url: "/v1/signup",
+      body: { email: "new@example.com", password: "hunter2hunter2", username: "newbie" },
+    });
+    const { accountId } = created.body as UserProfile;
+
+    const { status, body } = await app.inject({
+      method: "POST",
+      url: "/v1/users/me/profile",
+      headers: { authorization: `Bearer ${accountId}` },
+    });
+    assert.equal(status, 200);
+    assert.deepEqual(body, created.body);
+  });
+
+  it("reports an unknown account as not found", async () => {
+    const { alice } = setup();
+    const { status } = await alice({ method: "POST", url: "/v1/users/me/profile" });
+    assert.equal(status, 404);
+  });
+});
+
+describe("routing", () => {
+  it("answers health checks without a token", async () => {
+    const { app } = setup();
+    const { status, body } = await app.inject({ method: "GET", url: "/health" });
+    assert.equal(status, 200);
+    assert.deepEqual(body, { status: "ok", mode: "test" });
+  });
+
+  it("rejects unknown routes and methods", async () => {
+    const { alice } = setup();
+    assert.equal((await alice({ method: "GET", url: "/v1/nothing" })).status, 404);
+    assert.equal((await alice({ method: "DELETE", url: "/v1/appraisals" })).status, 405);
+  });
+});
+
+describe("authentication", () => {
+  it("reports an unreachable Appwrite as unavailable, not as a server error", async () => {
+    const app = createApp({
+      appwrite: { endpoint: "http://127.0.0.1:9/v1", projectId: "project" },
+      accounts: createMemoryAccountService(),
+      detector: createStubDetector(),
+      store: createMemoryStore(),
+    });
+    const { status, body } = await app.inject({
+      method: "GET",
+      url: "/v1/users/alice/appraisals",
+      headers: { authorization: "Bearer some.jwt.token" },
+    });
+    assert.equal(status, 503);
+    assert.equal(errorCode(body), "auth_unavailable");
+  });
+});
+
+describe("over HTTP", () => {
+  it("answers an oversized body with 413 before closing the connection", async () => {
+    const app = createApp({ mode: "test" });
+    const server = await app.listen(0);
+    const { port } = server.address() as AddressInfo;
+    try {
+      const status = await new Promise<number | undefined>((resolve, reject) => {
+        const req = request({ port, method: "POST", path: "/v1/appraisals" }, (res) => {
+          res.resume();
+          resolve(res.statusCode);
+        });
+        // Writes still in flight when the server closes may fail; only a
+        // failure before any response counts.
+        req.on("error", reject);
+        const chunk = Buffer.alloc(1024 * 1024, "a");
+        for (let i = 0; i < 12; i++) req.write(chunk);
+        req.end();
+      });
+      assert.equal(status, 413);
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
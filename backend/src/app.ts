@@ -0,0 +1,304 @@
+import { createServer, IncomingMessage, Server } from "http";
+import {
+  ForbiddenError,
+  HttpError,
+  NotFoundError,
+  PayloadTooLargeError,
+  UnauthorizedError,
+  toErrorResponse,
+} from "./errors";
+import {
+  Authenticator,
+  createAppwriteAuthenticator,
+  createStubAuthenticator,
+  readBearerToken,
+} from "./auth";
+import {
+  AccountService,
+  AppwriteAdminConfig,
+  createAppwriteAccountService,
+  createMemoryAccountService,
+} from "./accounts";
+import { Detector, createCocoSsdDetector, createStubDetector } from "./detection";
+import { AppraisalStore, createFileStore, createMemoryStore } from "./store";
+import { valuate } from "./valuation";
+import {
+  MAX_IMAGE_BYTES,
+  validateId,
+  validateListQuery,
+  validateSignUp,
+  validateSubmitAppraisal,
+} from "./validation";
+
+export interface ApiRequest {
+  method: string;
+  /** Path including the query string, e.g. "/v1/users/abc/appraisals?limit=5". */
+  url: string;
+  /** Parsed JSON body. */
+  body?: unknown;
+  headers?: { authorization?: string };
+}
+
+export interface ApiResponse {
+  status: number;
+  body: unknown;
+}
+
+export interface AppOptions {
+  /**
+   * "test" swaps in an in-memory store and a stub detector so the API can be
+   * exercised in-process through `inject`, with no model download or socket.
+   * "production" keeps appraisals in `dataFile` and runs COCO-SSD.
+   */
+  mode?: "production" | "test";
+  /** Where production mode keeps appraisals. Defaults to data/appraisals.json. */
+  dataFile?: string;
+  /** Appwrite project whose JWTs production mode accepts as bearer tokens. */
+  appwrite?: { endpoint: string; projectId: string };
+  /** What production mode needs to create accounts and user documents in that project. */
+  appwriteAdmin?: Pick<AppwriteAdminConfig, "apiKey" | "databaseId" | "userCollectionId">;
+  authenticator?: Authenticator;
+  accounts?: AccountService;
+  detector?: Detector;
+  store?: AppraisalStore;
+}
+
+type Handler = (
+  params: string[],
+  query: URLSearchParams,
+  body: unknown,
+  /** The authenticated user; empty on public routes. */
+  userId: string
+) => Promise<ApiResponse>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  /** Public routes don't need a bearer token. */
+  isPublic?: boolean;
+  handler: Handler;
+}
+
+// Base64 inflates the image by a third; leave room for the rest of the JSON.
+const MAX_BODY_BYTES = Math.ceil(MAX_IMAGE_BYTES * 4 / 3) + 64 * 1024;
+
+// How long the rest of an oversized body is read and thrown away.
+const DISCARD_BODY_MS = 5_000;
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Stop buffering; the server sends the 413 and then closes the
+        // connection.
+        req.off("data", onData);
+        req.pause();
+        reject(new PayloadTooLargeError(MAX_BODY_BYTES));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on("data", onData);
+    req.on("end", () => {
+      if (size === 0) return resolve(undefined);
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch {
+        reject(new HttpError(400, "invalid_json", "The request body is not valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+// Test mode takes user ids as tokens; production checks them with Appwrite.
+function createAuthenticator(mode: AppOptions["mode"], appwrite: AppOptions["appwrite"]) {
+  if (mode === "test") return createStubAuthenticator();
+  if (!appwrite) throw new Error("Production mode needs the Appwrite endpoint and project id");
+  return createAppwriteAuthenticator(appwrite);
+}
+
+// Test mode keeps accounts in memory; production writes them to Appwrite.
+function createAccounts(
+  mode: AppOptions["mode"],
+  appwrite: AppOptions["appwrite"],
+  appwriteAdmin: AppOptions["appwriteAdmin"]
+) {
+  if (mode === "test") return createMemoryAccountService();
+  if (!appwrite || !appwriteAdmin) {
+    throw new Error("Production mode needs an Appwrite API key, database id and user collection id");
+  }
+  return createAppwriteAccountService({ ...appwrite, ...appwriteAdmin });
+}
+
+/** Decodes a captured path segment; a malformed escape like "%E0" is a bad request. */
+function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, "bad_request", `Malformed path segment: ${segment}`);
+  }
+}
+
+/**
+ * Creates the appraisal API. Everything but `/health` and `/v1/signup` needs
+ * an `Authorization: Bearer <token>` header, and users only see their own
+ * appraisals. User ids are Appwrite account ids, not user document ids.
+ *
+ * - `POST /v1/signup` validates a sign-up and creates the account and its profile
+ * - `POST /v1/users/me/profile` creates or completes the caller's profile
+ * - `POST /v1/appraisals` runs detection and valuation on a submitted image
+ * - `GET /v1/appraisals/:id` fetches one appraisal
+ * - `GET /v1/users/:userId/appraisals` lists a user's appraisals, newest first
+ */
+export function createApp({
+  mode = "production",
+  dataFile = "data/appraisals.json",
+  appwrite,
+  appwriteAdmin,
+  authenticator,
+  accounts,
+  detector,
+  store,
+}: AppOptions = {}) {
+  const activeAuthenticator = authenticator ?? createAuthenticator(mode, appwrite);
+  const activeAccounts = accounts ?? createAccounts(mode, appwrite, appwriteAdmin);
+  const activeDetector =
+    detector ?? (mode === "test" ? createStubDetector() : createCocoSsdDetector());
+  const activeStore = store ?? (mode === "test" ? createMemoryStore() : createFileStore(dataFile));
+
+  const routes: Route[] = [
+    {
+      method: "GET",
+      pattern: /^\/health$/,
+      isPublic: true,
+      handler: async () => ({ status: 200, body: { status: "ok", mode } }),
+    },
+    {
+      method: "POST",
+      pattern: /^\/v1\/signup$/,
+      isPublic: true,
+      handler: async (_params, _query, body) => {
+        const profile = await activeAccounts.signUp(validateSignUp(body));
+        return { status: 201, body: profile };
+      },
+    },
+    {
+      method: "POST",
+      pattern: /^\/v1\/users\/me\/profile$/,
+      handler: async (_params, _query, _body, userId) => ({
+        status: 200,
+        body: await activeAccounts.repairProfile(userId),
+      }),
+    },
+    {
+      method: "POST",
+      pattern: /^\/v1\/appraisals$/,
+      handler: async (_params, _query, body, userId) => {
+        const { image } = validateSubmitAppraisal(body);
+        const detections = await activeDetector.detect(image);
+        const item = detections[0];
+        const record = await activeStore.create({
+          userId,
+          status: "complete",
+          detections,
+          valuation: item ? valuate(item.label) : null,
+        });
+        return { status: 201, body: record };
+      },
+    },
+    {
+      method: "GET",
+      pattern: /^\/v1\/appraisals\/([^/]+)$/,
+      handler: async ([id], _query, _body, userId) => {
+        const record = await activeStore.get(validateId(id, "id"));
+        // Someone else's appraisal is reported as missing, not forbidden,
+        // so ids can't be probed.
+        if (!record || record.userId !== userId) throw new NotFoundError("Appraisal");
+        return { status: 200, body: record };
+      },
+    },
+    {
+      method: "GET",
+      pattern: /^\/v1\/users\/([^/]+)\/appraisals$/,
+      handler: async ([owner], query, _body, userId) => {
+        if (validateId(owner, "userId") !== userId) {
+          throw new ForbiddenError("You can only list your own appraisals");
+        }
+        const page = await activeStore.listByUser(userId, validateListQuery(query));
+        return { status: 200, body: page };
+      },
+    },
+  ];
+
+  /** Dispatches a request to its route and turns thrown errors into responses. */
+  const handle = async ({ method, url, body, headers }: ApiRequest): Promise<ApiResponse> => {
+    const { pathname, searchParams } = new URL(url, "http://localhost");
+    try {
+      const matching = routes.filter(({ pattern }) => pattern.test(pathname));
+      if (matching.length === 0) throw new NotFoundError("Route");
+
+      const route = matching.find((candidate) => candidate.method === method);
+      if (!route) {
+        throw new HttpError(405, "method_not_allowed", `${method} is not allowed on ${pathname}`);
+      }
+
+      let userId = "";
+      if (!route.isPublic) {
+        const token = readBearerToken(headers?.authorization);
+        if (!token) throw new UnauthorizedError();
+        userId = await activeAuthenticator.authenticate(token);
+      }
+
+      const params = (route.pattern.exec(pathname) ?? []).slice(1).map(decodePathSegment);
+      return await route.handler(params, searchParams, body, userId);
+    } catch (error) {
+      if (!(error instanceof HttpError)) console.error(error);
+      return toErrorResponse(error);
+    }
+  };
+
+  const server: Server = createServer(async (req, res) => {
+    let response: ApiResponse;
+    // An oversized body is cut off mid-stream, so its connection can't be
+    // reused.
+    let closeAfterResponse = false;
+    try {
+      const body = await readJsonBody(req);
+      response = await handle({
+        method: req.method ?? "GET",
+        url: req.url ?? "/",
+        body,
+        headers: { authorization: req.headers.authorization },
+      });
+    } catch (error) {
+      response = toErrorResponse(error);
+      closeAfterResponse = error instanceof PayloadTooLargeError;
+    }
+    res.writeHead(response.status, {
+      "Content-Type": "application/json",
+      ...(closeAfterResponse && { Connection: "close" }),
+    });
+    res.end(JSON.stringify(response.body), () => {
+      if (!closeAfterResponse) return;
+      // Closing with the body unread would reset the connection, and the
+      // client could lose the 413 with it. Discard the rest for a while
+      // instead; "Connection: close" ends the socket once the client is done.
+      req.resume();
+      setTimeout(() => req.destroy(), DISCARD_BODY_MS).unref();
+    });
+  });
+
+  return {
+    /** Runs a request in-process, without going through a socket. */
+    inject: handle,
+    server,
+    listen(port: number) {
+      return new Promise<Server>((resolve) => server.listen(port, () => resolve(server)));
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import { HttpError, UnauthorizedError } from "./errors";
+import { validateId } from "./validation";
+
+/** Turns a bearer token into the id of the user it was issued to. */
+export interface Authenticator {
+  authenticate(token: string): Promise<string>;
+}
+
+/** Reads the bearer token from an `Authorization` header, if there is one. */
+export function readBearerToken(header: string | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Verifies Appwrite JWTs, which the app gets from `account.createJWT()`, by
+ * asking Appwrite whose account the token opens.
+ */
+export function createAppwriteAuthenticator({
+  endpoint,
+  projectId,
+}: {
+  endpoint: string;
+  projectId: string;
+}): Authenticator {
+  return {
+    async authenticate(token) {
+      let response: Response;
+      try {
+        response = await fetch(`${endpoint}/account`, {
+          headers: { "X-Appwrite-Project": projectId, "X-Appwrite-JWT": token },
+        });
+      } catch {
+        // Appwrite is unreachable, which is no fault of the caller's.
+        throw new HttpError(503, "auth_unavailable", "Could not verify the session");
+      }
+      if (response.status === 401) throw new UnauthorizedError();
+      if (!response.ok) {
+        throw new HttpError(502, "auth_unavailable", "Could not verify the session");
+      }
+      const account = (await response.json()) as { $id: string };
+      return account.$id;
+    },
+  };
+}
+
+/**
+ * Authenticator for test mode, where the token is the user id itself, e.g.
+ * `Authorization: Bearer user-1`.
+ */
+export function createStubAuthenticator(): Authenticator {
+  return {
+    async authenticate(token) {
+      try {
+        return validateId(token, "token");
+      } catch {
+        throw new UnauthorizedError();
+      }
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import { backfillUsernameKeys } from "./accounts";
+
+// Run once after adding the user collection's `usernameKey` attribute and
+// its unique index: `npm run backfill:username-keys`.
+const {
+  APPWRITE_ENDPOINT,
+  APPWRITE_PROJECT_ID,
+  APPWRITE_API_KEY,
+  APPWRITE_DATABASE_ID,
+  APPWRITE_USER_COLLECTION_ID,
+} = process.env;
+
+if (
+  !APPWRITE_ENDPOINT ||
+  !APPWRITE_PROJECT_ID ||
+  !APPWRITE_API_KEY ||
+  !APPWRITE_DATABASE_ID ||
+  !APPWRITE_USER_COLLECTION_ID
+) {
+  console.error(
+    "Set APPWRITE_ENDPOINT, APPWRITE_PROJECT_ID, APPWRITE_API_KEY, APPWRITE_DATABASE_ID and APPWRITE_USER_COLLECTION_ID"
+  );
+  process.exit(1);
+}
+
+backfillUsernameKeys({
+  endpoint: APPWRITE_ENDPOINT,
+  projectId: APPWRITE_PROJECT_ID,
+  apiKey: APPWRITE_API_KEY,
+  databaseId: APPWRITE_DATABASE_ID,
+  userCollectionId: APPWRITE_USER_COLLECTION_ID,
+}).then(
+  ({ updated, clashes }) => {
+    console.log(`Set usernameKey on ${updated} user documents`);
+    if (clashes.length > 0) {
+      console.log(`Left for repair on next sign-in (name taken in another case): ${clashes.join(", ")}`);
+    }
+  },
+  (error) => {
+    console.error(error);
+    process.exitCode = 1;
+  }
+);
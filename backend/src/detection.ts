@@ -0,0 +1,86 @@
+import * as tf from "@tensorflow/tfjs";
+import * as cocoSsd from "@tensorflow-models/coco-ssd";
+import jpeg from "jpeg-js";
+import { HttpError } from "./errors";
+
+/** A detected object, with its box in image pixels. */
+export interface ServerDetection {
+  label: string;
+  score: number;
+  box: { x1: number; y1: number; x2: number; y2: number };
+}
+
+export interface Detector {
+  detect(image: Buffer): Promise<ServerDetection[]>;
+}
+
+// Decodes a JPEG into an RGB tensor without any native dependencies.
+function decodeJpeg(image: Buffer): tf.Tensor3D {
+  try {
+    const { width, height, data } = jpeg.decode(image, { useTArray: true, formatAsRGBA: false });
+    return tf.tensor3d(data, [height, width, 3], "int32");
+  } catch {
+    throw new HttpError(422, "unreadable_image", "The image could not be decoded");
+  }
+}
+
+/**
+ * Detector backed by COCO-SSD on the TF.js CPU backend. The model is loaded
+ * on the first request.
+ */
+export function createCocoSsdDetector({
+  maxBoxes = 20,
+  minScore = 0.5,
+}: { maxBoxes?: number; minScore?: number } = {}): Detector {
+  let model: Promise<cocoSsd.ObjectDetection> | null = null;
+
+  const load = () => {
+    if (!model) {
+      model = (async () => {
+        await tf.setBackend("cpu");
+        await tf.ready();
+        return cocoSsd.load({ base: "lite_mobilenet_v2" });
+      })();
+      // Let a failed load be retried.
+      model.catch(() => {
+        model = null;
+      });
+    }
+    return model;
+  };
+
+  return {
+    async detect(image) {
+      const loaded = await load();
+      const pixels = decodeJpeg(image);
+      try {
+        const results = await loaded.detect(pixels, maxBoxes, minScore);
+        return results
+          .map(({ bbox: [x, y, w, h], class: label, score }) => ({
+            label,
+            score,
+            box: { x1: x, y1: y, x2: x + w, y2: y + h },
+          }))
+          .sort((a, b) => b.score - a.score);
+      } finally {
+        pixels.dispose();
+      }
+    },
+  };
+}
+
+/**
+ * Detector that returns fixed results without loading a model, for running
+ * the API in test mode.
+ */
+export function createStubDetector(
+  detections: ServerDetection[] = [
+    { label: "clock", score: 0.9, box: { x1: 10, y1: 10, x2: 110, y2: 110 } },
+  ]
+): Detector {
+  return {
+    async detect() {
+      return detections;
+    },
+  };
+}
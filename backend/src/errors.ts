@@ -0,0 +1,84 @@
+/**
+ * An error that maps directly onto an HTTP response. Every error the API
+ * sends back has the shape `{ error: { code, message, details? } }`.
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/** A field-level problem with a request. */
+export interface FieldIssue {
+  field: string;
+  message: string;
+}
+
+export class ValidationError extends HttpError {
+  constructor(readonly issues: FieldIssue[]) {
+    super(400, "validation_failed", "The request is invalid", issues);
+    this.name = "ValidationError";
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor() {
+    super(401, "unauthorized", "A valid bearer token is required");
+    this.name = "UnauthorizedError";
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message: string) {
+    super(403, "forbidden", message);
+    this.name = "ForbiddenError";
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(what: string) {
+    super(404, "not_found", `${what} not found`);
+    this.name = "NotFoundError";
+  }
+}
+
+/** The request clashes with something that already exists, e.g. a taken username. */
+export class ConflictError extends HttpError {
+  constructor(code: string, issue: FieldIssue) {
+    super(409, code, issue.message, [issue]);
+    this.name = "ConflictError";
+  }
+}
+
+export class PayloadTooLargeError extends HttpError {
+  constructor(limitBytes: number) {
+    super(413, "payload_too_large", `Request body exceeds ${limitBytes} bytes`);
+    this.name = "PayloadTooLargeError";
+  }
+}
+
+/** Builds the response body for any thrown value. */
+export function toErrorResponse(error: unknown): { status: number; body: unknown } {
+  if (error instanceof HttpError) {
+    return {
+      status: error.status,
+      body: {
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error.details !== undefined ? { details: error.details } : {}),
+        },
+      },
+    };
+  }
+  return {
+    status: 500,
+    body: { error: { code: "internal_error", message: "Something went wrong" } },
+  };
+}
@@ -0,0 +1,30 @@
+import { createApp } from "./app";
+
+const port = Number(process.env.PORT ?? 3000);
+const mode = process.env.APPRAISAL_MODE === "test" ? "test" : "production";
+
+const {
+  APPWRITE_ENDPOINT,
+  APPWRITE_PROJECT_ID,
+  APPWRITE_API_KEY,
+  APPWRITE_DATABASE_ID,
+  APPWRITE_USER_COLLECTION_ID,
+} = process.env;
+const appwrite =
+  APPWRITE_ENDPOINT && APPWRITE_PROJECT_ID
+    ? { endpoint: APPWRITE_ENDPOINT, projectId: APPWRITE_PROJECT_ID }
+    : undefined;
+const appwriteAdmin =
+  APPWRITE_API_KEY && APPWRITE_DATABASE_ID && APPWRITE_USER_COLLECTION_ID
+    ? {
+        apiKey: APPWRITE_API_KEY,
+        databaseId: APPWRITE_DATABASE_ID,
+        userCollectionId: APPWRITE_USER_COLLECTION_ID,
+      }
+    : undefined;
+
+createApp({ mode, dataFile: process.env.APPRAISAL_DATA_FILE, appwrite, appwriteAdmin })
+  .listen(port)
+  .then(() => {
+    console.log(`Appraisal API listening on port ${port} (${mode})`);
+  });
@@ -0,0 +1,125 @@
+import { randomUUID } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { ServerDetection } from "./detection";
+import { ValidationError } from "./errors";
+import { Valuation } from "./valuation";
+
+export interface AppraisalRecord {
+  id: string;
+  /** The appraiser's Appwrite account id, not their user document id. */
+  userId: string;
+  status: "complete";
+  detections: ServerDetection[];
+  /** Null when nothing was detected. */
+  valuation: Valuation | null;
+  createdAt: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  /** Pass as `cursor` to get the next page; null on the last page. */
+  nextCursor: string | null;
+}
+
+export interface AppraisalStore {
+  create(record: Omit<AppraisalRecord, "id" | "createdAt">): Promise<AppraisalRecord>;
+  get(id: string): Promise<AppraisalRecord | null>;
+  /** Lists a user's appraisals, newest first. Rejects a cursor that isn't one of them. */
+  listByUser(userId: string, page: { limit: number; cursor?: string }): Promise<Page<AppraisalRecord>>;
+}
+
+/** Pages through a user's records, given in creation order. */
+function pageByUser(
+  records: Iterable<AppraisalRecord>,
+  userId: string,
+  { limit, cursor }: { limit: number; cursor?: string }
+): Page<AppraisalRecord> {
+  const mine = [...records].filter((record) => record.userId === userId).reverse();
+  const after = cursor ? mine.findIndex((record) => record.id === cursor) : -1;
+  if (cursor && after < 0) {
+    throw new ValidationError([{ field: "cursor", message: "does not match an appraisal" }]);
+  }
+  const start = after + 1;
+  const items = mine.slice(start, start + limit);
+  const hasMore = start + limit < mine.length;
+  return { items, nextCursor: hasMore ? items[items.length - 1].id : null };
+}
+
+const newRecord = (data: Omit<AppraisalRecord, "id" | "createdAt">): AppraisalRecord => ({
+  ...data,
+  id: randomUUID(),
+  createdAt: new Date().toISOString(),
+});
+
+/** Keeps appraisals in process memory; used in test mode. */
+export function createMemoryStore(): AppraisalStore {
+  // Insertion order doubles as creation order.
+  const records = new Map<string, AppraisalRecord>();
+
+  return {
+    async create(data) {
+      const record = newRecord(data);
+      records.set(record.id, record);
+      return record;
+    },
+    async get(id) {
+      return records.get(id) ?? null;
+    },
+    async listByUser(userId, page) {
+      return pageByUser(records.values(), userId, page);
+    },
+  };
+}
+
+/**
+ * Keeps appraisals in a JSON file, read on first use and rewritten after
+ * every change. Suits a single instance; run several and they overwrite each
+ * other's writes.
+ */
+export function createFileStore(path: string): AppraisalStore {
+  let loading: Promise<Map<string, AppraisalRecord>> | null = null;
+  // Writes go one at a time, so an older snapshot never lands last.
+  let writing: Promise<void> = Promise.resolve();
+
+  const load = () => {
+    loading ??= readFile(path, "utf8").then(
+      (text) => new Map((JSON.parse(text) as AppraisalRecord[]).map((record) => [record.id, record])),
+      (error: NodeJS.ErrnoException) => {
+        if (error.code === "ENOENT") return new Map<string, AppraisalRecord>();
+        loading = null;
+        throw error;
+      }
+    );
+    return loading;
+  };
+
+  const save = (records: Map<string, AppraisalRecord>) => {
+    const text = JSON.stringify([...records.values()]);
+    writing = writing
+      .catch(() => {})
+      .then(async () => {
+        // Write then rename, so a crash mid-write leaves the old file intact.
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(`${path}.tmp`, text);
+        await rename(`${path}.tmp`, path);
+      });
+    return writing;
+  };
+
+  return {
+    async create(data) {
+      const records = await load();
+      const record = newRecord(data);
+      records.set(record.id, record);
+      await save(records);
+      return record;
+    },
+    async get(id) {
+      return (await load()).get(id) ?? null;
+    },
+    async listByUser(userId, page) {
+      return pageByUser((await load()).values(), userId, page);
+    },
+  };
+}
@@ -0,0 +1,146 @@
+import { FieldIssue, ValidationError } from "./errors";
+
+/** Largest accepted image, after base64 decoding. */
+export const MAX_IMAGE_BYTES = 8 * 1024 * 1024;
+
+// Sign-up rules, the same as the app's lib/validation.ts. The app checks
+// them as the user types; these are the ones that count.
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 20;
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 256;
+
+const ID_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9._-]{0,35}$/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const USERNAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_.]*$/;
+
+export interface SubmitAppraisalBody {
+  image: Buffer;
+}
+
+export interface SignUpBody {
+  email: string;
+  password: string;
+  username: string;
+}
+
+export interface ListQuery {
+  limit: number;
+  cursor?: string;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Checks an id taken from the URL, with the same rules Appwrite uses. */
+export function validateId(value: string, field: string): string {
+  if (!ID_PATTERN.test(value)) {
+    throw new ValidationError([{ field, message: "must be a valid id" }]);
+  }
+  return value;
+}
+
+/**
+ * Validates the body of `POST /v1/appraisals`: a base64 encoded JPEG,
+ * optionally as a data URL. The appraiser comes from the bearer token.
+ */
+export function validateSubmitAppraisal(body: unknown): SubmitAppraisalBody {
+  const issues: FieldIssue[] = [];
+  if (!isObject(body)) {
+    throw new ValidationError([{ field: "body", message: "must be a JSON object" }]);
+  }
+
+  const { image } = body;
+  let bytes: Buffer | null = null;
+  if (typeof image !== "string" || image.length === 0) {
+    issues.push({ field: "image", message: "must be a base64 encoded JPEG" });
+  } else {
+    const base64 = image.replace(/^data:image\/jpeg;base64,/, "");
+    if (!BASE64_PATTERN.test(base64)) {
+      issues.push({ field: "image", message: "must be valid base64" });
+    } else {
+      bytes = Buffer.from(base64, "base64");
+      if (bytes.length > MAX_IMAGE_BYTES) {
+        issues.push({ field: "image", message: `must be at most ${MAX_IMAGE_BYTES} bytes` });
+      } else if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+        issues.push({ field: "image", message: "must be a JPEG" });
+      }
+    }
+  }
+
+  if (issues.length > 0 || !bytes) {
+    throw new ValidationError(issues);
+  }
+  return { image: bytes };
+}
+
+/** Usernames are unique whatever their case, so they're stored and compared like this. */
+export const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+/** Why `username` isn't a valid username, or null if it is. */
+export function checkUsername(username: string): string | null {
+  if (username.length < USERNAME_MIN_LENGTH || username.length > USERNAME_MAX_LENGTH) {
+    return `must be ${USERNAME_MIN_LENGTH} to ${USERNAME_MAX_LENGTH} characters`;
+  }
+  if (!USERNAME_PATTERN.test(username)) {
+    return "must start with a letter and use only letters, numbers, _ and .";
+  }
+  return null;
+}
+
+/**
+ * Validates the body of `POST /v1/signup`. The email and username come back
+ * trimmed and lower-cased, as they're stored.
+ */
+export function validateSignUp(body: unknown): SignUpBody {
+  if (!isObject(body)) {
+    throw new ValidationError([{ field: "body", message: "must be a JSON object" }]);
+  }
+  const issues: FieldIssue[] = [];
+  const text = (value: unknown) => (typeof value === "string" ? value : "");
+
+  const email = text(body.email).trim().toLowerCase();
+  if (!EMAIL_PATTERN.test(email)) {
+    issues.push({ field: "email", message: "must be a valid email address" });
+  }
+
+  const password = text(body.password);
+  if (password.length < PASSWORD_MIN_LENGTH || password.length > PASSWORD_MAX_LENGTH) {
+    issues.push({
+      field: "password",
+      message: `must be ${PASSWORD_MIN_LENGTH} to ${PASSWORD_MAX_LENGTH} characters`,
+    });
+  } else if (!/[a-zA-Z]/.test(password) || !/[0-9]/.test(password)) {
+    issues.push({ field: "password", message: "must contain both letters and numbers" });
+  }
+
+  const username = normalizeUsername(text(body.username));
+  const usernameIssue = checkUsername(username);
+  if (usernameIssue) issues.push({ field: "username", message: usernameIssue });
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues);
+  }
+  return { email, password, username };
+}
+
+/** Validates `?limit=&cursor=` on list endpoints. */
+export function validateListQuery(params: URLSearchParams): ListQuery {
+  const issues: FieldIssue[] = [];
+  const rawLimit = params.get("limit");
+  const limit = rawLimit === null ? 20 : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+    issues.push({ field: "limit", message: "must be an integer from 1 to 100" });
+  }
+
+  const cursor = params.get("cursor") ?? undefined;
+  if (cursor !== undefined && !ID_PATTERN.test(cursor)) {
+    issues.push({ field: "cursor", message: "must be a valid id" });
+  }
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues);
+  }
+  return { limit, cursor };
+}
@@ -0,0 +1,21 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+
+// src/valuation is a copy of the app's lib/valuation, so both price items the
+// same way. It only drifts if someone edits one side and forgets
+// `npm run sync:valuation`.
+const APP_VALUATION = join(__dirname, "../../frontend/lib/valuation");
+
+describe("valuation", () => {
+  for (const file of ["index.ts", "valuationRules.json"]) {
+    it(`matches the app's ${file}`, { skip: !existsSync(APP_VALUATION) && "no app checkout" }, () => {
+      assert.equal(
+        readFileSync(join(__dirname, "valuation", file), "utf8"),
+        readFileSync(join(APP_VALUATION, file), "utf8"),
+        `src/valuation/${file} is out of date; run npm run sync:valuation`
+      );
+    });
+  }
+});
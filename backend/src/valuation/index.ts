@@ -0,0 +1,183 @@
+// The backend keeps a copy of this directory (see its `sync:valuation`
+// script), so it imports nothing from the rest of the app.
+import defaultRules from "./valuationRules.json";
+
+/** A price range, in `currency`. */
+export interface ValueRange {
+  min: number;
+  max: number;
+  currency: string;
+}
+
+/** A classifier label, shaped like `ClassifierLabel` in utils/detection. */
+export interface ValuationLabel {
+  className: string;
+  probability: number;
+}
+
+/** One entry of the rules table: which category and tier an item falls in. */
+export interface ValuationRule {
+  category: string;
+  tier: string;
+  /** [min, max] */
+  value: number[];
+}
+
+/**
+ * The editable valuation table. `labels` are matched against classifier
+ * labels first, then `classes` against the detected class, and `fallback`
+ * covers anything left. Bump `version` whenever the table changes, so saved
+ * appraisals can be traced back to the rules that priced them.
+ */
+export interface ValuationRules {
+  version: number;
+  currency: string;
+  /** Classifier labels less likely than this are ignored. */
+  minLabelProbability: number;
+  tiers: { name: string; rank: number }[];
+  labels: ({ match: string[] } & ValuationRule)[];
+  classes: Record<string, ValuationRule>;
+  fallback: ValuationRule;
+}
+
+export interface Valuation {
+  objectName: string;
+  category: string;
+  rarity: string;
+  /** Position of `rarity` in the tier list, higher is rarer. */
+  rarityRank: number;
+  value: ValueRange;
+  description: string;
+  /** What the valuation was based on. */
+  source: "label" | "class" | "fallback";
+  rulesVersion: number;
+}
+
+/** Fields of an appraised-collection document, ready to be saved. */
+export interface AppraisalDocumentData {
+  objectName: string;
+  objectImage: string;
+  description: string;
+  rarity: string;
+  rarityRank: number;
+  category: string;
+  estimatedValueMin: number;
+  estimatedValueMax: number;
+  currency: string;
+  rulesVersion: number;
+  appraiser: string;
+}
+
+export const DEFAULT_VALUATION_RULES = defaultRules as ValuationRules;
+
+/** Formats a range as e.g. "$40–$1,500". */
+export function formatValueRange({ min, max, currency }: ValueRange): string {
+  const format = (amount: number) =>
+    amount.toLocaleString("en-US", { style: "currency", currency, maximumFractionDigits: 0 });
+  return min === max ? format(min) : `${format(min)}–${format(max)}`;
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// ImageNet style labels list synonyms separated by commas, e.g.
+// "violin, fiddle"; any of them may match a rule.
+const labelTerms = (className: string) =>
+  className.split(",").map((term) => term.trim().toLowerCase());
+
+function describe(
+  objectName: string,
+  rule: ValuationRule,
+  value: ValueRange,
+  source: Valuation["source"]
+): string {
+  if (source === "fallback") {
+    return `${capitalize(objectName)} that doesn't match any category we know yet. ` +
+      `Similar odds and ends usually go for ${formatValueRange(value)}.`;
+  }
+  return `${capitalize(objectName)} from the ${rule.category} category, rated ${rule.tier}. ` +
+    `Comparable items typically sell for ${formatValueRange(value)}.`;
+}
+
+/**
+ * Resolves a detected item to a category, rarity tier and value range.
+ *
+ * @param detectedClass The detector's class name, e.g. "clock".
+ * @param labels Fine-grained classifier labels for the same item, if any.
+ * @param rules The rules table to apply.
+ */
+export function valuate(
+  detectedClass: string | null,
+  labels: ValuationLabel[] = [],
+  rules: ValuationRules = DEFAULT_VALUATION_RULES
+): Valuation {
+  let rule: ValuationRule = rules.fallback;
+  let source: Valuation["source"] = "fallback";
+  let objectName = detectedClass ?? "unidentified item";
+
+  // The most probable classifier label that matches a rule wins.
+  const candidates = [...labels]
+    .filter((label) => label.probability >= rules.minLabelProbability)
+    .sort((a, b) => b.probability - a.probability);
+  for (const label of candidates) {
+    const terms = labelTerms(label.className);
+    const match = rules.labels.find((entry) =>
+      entry.match.some((term) => terms.includes(term.toLowerCase()))
+    );
+    if (match) {
+      rule = match;
+      source = "label";
+      objectName = terms[0];
+      break;
+    }
+  }
+
+  if (source === "fallback" && detectedClass && rules.classes[detectedClass]) {
+    rule = rules.classes[detectedClass];
+    source = "class";
+  }
+
+  // A tier missing from the tier list is treated as the most common one.
+  const tier = rules.tiers.find(({ name }) => name === rule.tier) ?? rules.tiers[0];
+  const value: ValueRange = { min: rule.value[0], max: rule.value[1], currency: rules.currency };
+
+  return {
+    objectName,
+    category: rule.category,
+    rarity: tier.name,
+    rarityRank: tier.rank,
+    value,
+    description: describe(objectName, rule, value, source),
+    source,
+    rulesVersion: rules.version,
+  };
+}
+
+/** Builds the appraised-collection document for a valuation. */
+export function toAppraisalDocument(
+  valuation: Valuation,
+  { objectImage, appraiser }: { objectImage: string; appraiser: string }
+): AppraisalDocumentData {
+  return {
+    objectName: valuation.objectName,
+    objectImage,
+    description: valuation.description,
+    rarity: valuation.rarity,
+    rarityRank: valuation.rarityRank,
+    category: valuation.category,
+    estimatedValueMin: valuation.value.min,
+    estimatedValueMax: valuation.value.max,
+    currency: valuation.value.currency,
+    rulesVersion: valuation.rulesVersion,
+    appraiser,
+  };
+}
+
+/** Every category the rules can assign, alphabetically. */
+export function listCategories(rules: ValuationRules = DEFAULT_VALUATION_RULES): string[] {
+  const categories = new Set([
+    ...rules.labels.map((rule) => rule.category),
+    ...Object.values(rules.classes).map((rule) => rule.category),
+    rules.fallback.category,
+  ]);
+  return [...categories].sort();
+}
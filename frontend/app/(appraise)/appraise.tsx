@@ -1,11 +1,72 @@
-import React from "react";
-import { View, Text, Image, Pressable } from "react-native";
+import React, { useMemo, useState } from "react";
+import { View, Text, Image, Pressable, Alert } from "react-native";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { StatusBar } from "expo-status-bar";
+import CustomButton from "@/components/CustomButton";
+import ProgressBar from "@/components/ProgressBar";
+import useAppraisalJob, { AppraisalStatus } from "@/lib/useAppraisalJob";
+import { formatValueRange } from "@/lib/valuation";
+import { enqueueAppraisal } from "@/lib/outbox";
+import { describeError } from "@/lib/errorMessages";
+import { useGlobalContext } from "@/context/GlobalProvider";
+import { Detection } from "@/utils/detection";
+
+const STATUS_LABELS: Record<AppraisalStatus, string> = {
+  idle: "STANDBY",
+  analyzing: "ANALYZING",
+  complete: "COMPLETE",
+  failed: "FAILED",
+  cancelled: "CANCELLED",
+};
+
+// Detections arrive as a JSON route param; anything unreadable is ignored
+// and the photo is analyzed from scratch instead.
+const parseDetections = (param: string | string[] | undefined): Detection[] | undefined => {
+  if (typeof param !== "string") return undefined;
+  try {
+    const parsed = JSON.parse(param);
+    return Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+};
 
 export default function Appraise() {
-  const { thumbnail } = useLocalSearchParams();
+  const { thumbnail, detections } = useLocalSearchParams();
   const router = useRouter();
+  const { user } = useGlobalContext();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const imageUri = typeof thumbnail === "string" && thumbnail ? thumbnail : null;
+  const input = useMemo(
+    () => (imageUri ? { imageUri, detections: parseDetections(detections) } : null),
+    [imageUri, detections]
+  );
+  const job = useAppraisalJob(input);
+  const item = job.result?.item ?? null;
+  const valuation = job.result?.valuation ?? null;
+
+  const save = async () => {
+    if (!imageUri || !valuation || !user) return;
+    setIsSaving(true);
+    try {
+      // Saved in the background, and retried if offline; home shows progress.
+      await enqueueAppraisal(imageUri, valuation, user.$id);
+      router.replace("/home");
+    } catch (error) {
+      const { title, message } = describeError(error, "save");
+      Alert.alert(title, message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  let message = "Capture an item with the camera to appraise it.";
+  if (job.status === "analyzing") message = `${job.stage ?? "Analyzing"}...`;
+  else if (job.status === "complete")
+    message = valuation?.description ?? "No item detected in this photo.";
+  else if (job.status === "failed") message = job.error?.message ?? "Analysis failed.";
+  else if (job.status === "cancelled") message = "Analysis cancelled.";
 
   return (
     <View className="flex-1 bg-[#161622] p-4">
@@ -43,9 +104,9 @@ export default function Appraise() {
           
           {/* Display image */}
           <View className="flex-1 items-center justify-center border border-[#a5bbde] bg-black bg-opacity-40 rounded mb-4 relative overflow-hidden">
-            {thumbnail ? (
+            {imageUri ? (
               <Image
-                source={{ uri: thumbnail as string }}
+                source={{ uri: imageUri }}
                 style={{ width: "80%", height: "80%", borderRadius: 8 }}
                 resizeMode="contain"
               />
@@ -61,20 +122,86 @@ export default function Appraise() {
           {/* Status indicators */}
           <View className="flex-row justify-between flex-wrap">
             <Text className="text-[#cccccc] text-sm font-medium mb-2 mr-2">
-              Status: <Text className="text-[#a5bbde] font-bold">ANALYZING</Text>
+              Status: <Text className="text-[#a5bbde] font-bold">{STATUS_LABELS[job.status]}</Text>
             </Text>
             <Text className="text-[#cccccc] text-sm font-medium mb-2 mr-2">
-              Confidence: <Text className="text-[#a5bbde] font-bold">87.3%</Text>
+              Item:{" "}
+              <Text className="text-[#a5bbde] font-bold">
+                {item ? (valuation?.objectName ?? item.label).toUpperCase() : "—"}
+              </Text>
             </Text>
             <Text className="text-[#cccccc] text-sm font-medium mb-2 mr-2">
-              System: <Text className="text-[#a5bbde] font-bold">ONLINE</Text>
+              Confidence:{" "}
+              <Text className="text-[#a5bbde] font-bold">
+                {item ? `${(item.score * 100).toFixed(1)}%` : "—"}
+              </Text>
             </Text>
           </View>
+
+          {valuation && (
+            <View className="flex-row justify-between flex-wrap">
+              <Text className="text-[#cccccc] text-sm font-medium mb-2 mr-2">
+                Rarity: <Text className="text-[#a5bbde] font-bold">{valuation.rarity.toUpperCase()}</Text>
+              </Text>
+              <Text className="text-[#cccccc] text-sm font-medium mb-2 mr-2">
+                Value: <Text className="text-[#a5bbde] font-bold">{formatValueRange(valuation.value)}</Text>
+              </Text>
+            </View>
+          )}
+
+          {item && job.classificationError && (
+            <Text className="text-[#cccccc] text-xs font-medium mb-2">
+              Detailed labels unavailable, so this is valued by its detected class only.
+            </Text>
+          )}
+
+          {item?.labels && item.labels.length > 0 && (
+            <View className="mb-2">
+              {item.labels.map(({ className, probability }) => (
+                <Text key={className} className="text-[#cccccc] text-xs font-medium" numberOfLines={1}>
+                  {className.split(",")[0]}:{" "}
+                  <Text className="text-[#a5bbde] font-bold">{(probability * 100).toFixed(1)}%</Text>
+                </Text>
+              ))}
+            </View>
+          )}
+
+          {job.status === "analyzing" && <ProgressBar progress={job.progress} />}
         </View>
         
         <Text className="text-base text-[#cccccc] text-center mt-5">
-          Image captured and ready for analysis.
+          {message}
         </Text>
+
+        {job.status === "analyzing" && (
+          <CustomButton
+            title="Cancel"
+            handlePress={job.cancel}
+            containerStyles="w-full max-w-[500px] mt-5"
+          />
+        )}
+        {job.status === "complete" && valuation && (
+          <CustomButton
+            title="Save to Collection"
+            handlePress={save}
+            containerStyles="w-full max-w-[500px] mt-5"
+            isLoading={isSaving}
+          />
+        )}
+        {(job.status === "failed" || job.status === "cancelled") && (
+          <CustomButton
+            title="Retry"
+            handlePress={job.retry}
+            containerStyles="w-full max-w-[500px] mt-5"
+          />
+        )}
+        {job.status === "idle" && (
+          <CustomButton
+            title="Open Camera"
+            handlePress={() => router.replace("/camera")}
+            containerStyles="w-full max-w-[500px] mt-5"
+          />
+        )}
         
         {/* Futuristic decorative elements */}
         <View
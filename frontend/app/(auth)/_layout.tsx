@@ -19,6 +19,18 @@ const AuthLayout = () => {
             headerShown: false
           }}
         />
+        <Stack.Screen 
+          name="forgot-password"
+          options={{
+            headerShown: false
+          }}
+        />
+        <Stack.Screen 
+          name="reset-password"
+          options={{
+            headerShown: false
+          }}
+        />
       </Stack>
 
       <StatusBar 
@@ -0,0 +1,110 @@
+import { View, ScrollView, Image, Text, Alert } from "react-native";
+import React, { useState } from "react";
+import { SafeAreaView } from "react-native-safe-area-context";
+import logo from "../../assets/images/logo.png";
+import FormField from "@/components/FormField";
+import CustomButton from "@/components/CustomButton";
+import { Link } from "expo-router";
+import { requestPasswordRecovery } from "@/lib/dataSource";
+import { describeError } from "@/lib/errorMessages";
+import { validateEmail } from "@/lib/validation";
+import useCooldown from "@/lib/useCooldown";
+
+const RESEND_COOLDOWN = 60;
+
+const ForgotPassword = () => {
+  const [email, setEmail] = useState("");
+  const [touched, setTouched] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [isSubmitting, setSubmitting] = useState(false);
+  const cooldown = useCooldown("password-recovery", RESEND_COOLDOWN);
+
+  const error = validateEmail(email.trim());
+
+  const submit = async () => {
+    if (error || cooldown.isCoolingDown) return;
+
+    setSubmitting(true);
+    try {
+      await requestPasswordRecovery(email);
+      setSentTo(email.trim());
+      cooldown.start();
+    } catch (error) {
+      const { title, message } = describeError(error);
+      Alert.alert(title, message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView className="bg-primary flex-1">
+      <ScrollView
+        contentContainerStyle={{ flexGrow: 1, justifyContent: "center" }}
+      >
+        <View className="w-full px-4 my-6">
+          <View className="items-center">
+            <Image
+              source={logo}
+              resizeMode="contain"
+              style={{ width: 300, height: 90 }}
+            />
+          </View>
+
+          <Text className="text-2xl text-white text-semibold mt-10 font-psemibold">
+            Forgot your password?
+          </Text>
+          <Text className="text-base text-gray-100 font-pregular mt-3">
+            Enter your email and we'll send you a link to choose a new one.
+          </Text>
+
+          <FormField
+            title="Email"
+            value={email}
+            handleChangeText={setEmail}
+            onBlur={() => setTouched(true)}
+            error={touched ? error : null}
+            otherStyles="mt-7"
+            keyboardType="email-address"
+            autoCapitalize="none"
+            placeHolder={""}
+          />
+
+          {sentTo && (
+            <Text className="text-sm text-gray-100 font-pregular mt-5">
+              If an account uses {sentTo}, a reset link is on its way. It expires in an hour.
+            </Text>
+          )}
+
+          <CustomButton
+            title={
+              cooldown.isCoolingDown
+                ? `Resend in ${cooldown.remaining}s`
+                : sentTo
+                  ? "Resend Link"
+                  : "Send Reset Link"
+            }
+            handlePress={submit}
+            containerStyles="mt-7"
+            isLoading={isSubmitting}
+            disabled={!!error || cooldown.isCoolingDown}
+          />
+
+          <View className="justify-center pt-5 flex-row gap-2">
+            <Text className="text-lg text-gray-100 font-pregular">
+              Remembered it?
+            </Text>
+            <Link
+              href="/sign-in"
+              className="text-lg font-psemibold text-secondary"
+            >
+              Sign In
+            </Link>
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default ForgotPassword;
@@ -0,0 +1,138 @@
+import { View, ScrollView, Image, Text, Alert } from "react-native";
+import React, { useState } from "react";
+import { SafeAreaView } from "react-native-safe-area-context";
+import logo from "../../assets/images/logo.png";
+import FormField from "@/components/FormField";
+import CustomButton from "@/components/CustomButton";
+import { Link, router, useLocalSearchParams } from "expo-router";
+import { resetPassword } from "@/lib/dataSource";
+import { describeError } from "@/lib/errorMessages";
+import { InvalidTokenError, ValidationError } from "@/lib/errors";
+import { validatePassword } from "@/lib/validation";
+
+/** Opened from the emailed recovery link, with the token in its query string. */
+const ResetPassword = () => {
+  const { userId, secret, expire } = useLocalSearchParams<{
+    userId?: string;
+    secret?: string;
+    expire?: string;
+  }>();
+  const [form, setForm] = useState({ password: "", confirm: "" });
+  const [touched, setTouched] = useState({ password: false, confirm: false });
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [isExpired, setIsExpired] = useState(
+    () => !!expire && new Date(expire).getTime() < Date.now()
+  );
+  const [isSubmitting, setSubmitting] = useState(false);
+
+  const hasToken = !!userId && !!secret;
+  const errors = {
+    password: validatePassword(form.password) ?? serverError,
+    confirm: form.confirm !== form.password ? "Passwords don't match" : null,
+  };
+
+  const submit = async () => {
+    if (!userId || !secret || errors.password || errors.confirm) return;
+
+    setSubmitting(true);
+    try {
+      await resetPassword(userId, secret, form.password);
+      Alert.alert("Password changed", "Sign in with your new password.");
+      router.replace("/sign-in");
+    } catch (error) {
+      if (error instanceof InvalidTokenError) {
+        setIsExpired(true);
+      } else if (error instanceof ValidationError) {
+        // e.g. a password Appwrite considers too common.
+        setServerError(error.message);
+      } else {
+        const { title, message } = describeError(error);
+        Alert.alert(title, message);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView className="bg-primary flex-1">
+      <ScrollView
+        contentContainerStyle={{ flexGrow: 1, justifyContent: "center" }}
+      >
+        <View className="w-full px-4 my-6">
+          <View className="items-center">
+            <Image
+              source={logo}
+              resizeMode="contain"
+              style={{ width: 300, height: 90 }}
+            />
+          </View>
+
+          <Text className="text-2xl text-white text-semibold mt-10 font-psemibold">
+            Choose a new password
+          </Text>
+
+          {!hasToken || isExpired ? (
+            <>
+              <Text className="text-base text-gray-100 font-pregular mt-3">
+                {hasToken
+                  ? "This link has expired or was already used."
+                  : "This link is incomplete. Open it straight from the email."}
+              </Text>
+              <CustomButton
+                title="Send a New Link"
+                handlePress={() => router.replace("/forgot-password")}
+                containerStyles="mt-7"
+              />
+            </>
+          ) : (
+            <>
+              <FormField
+                title="Password"
+                value={form.password}
+                handleChangeText={(e) => {
+                  setForm({ ...form, password: e });
+                  setServerError(null);
+                }}
+                onBlur={() => setTouched({ ...touched, password: true })}
+                error={touched.password ? errors.password : null}
+                otherStyles="mt-7"
+                placeHolder={""}
+              />
+
+              <FormField
+                title="Confirm password"
+                value={form.confirm}
+                handleChangeText={(e) => setForm({ ...form, confirm: e })}
+                onBlur={() => setTouched({ ...touched, confirm: true })}
+                error={touched.confirm ? errors.confirm : null}
+                otherStyles="mt-7"
+                secureTextEntry
+                placeHolder={""}
+              />
+
+              <CustomButton
+                title="Change Password"
+                handlePress={submit}
+                containerStyles="mt-7"
+                isLoading={isSubmitting}
+                disabled={!!errors.password || !!errors.confirm}
+              />
+            </>
+          )}
+
+          <View className="justify-center pt-5 flex-row gap-2">
+            <Link
+              href="/sign-in"
+              className="text-lg font-psemibold text-secondary"
+            >
+              Back to Sign In
+            </Link>
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default ResetPassword;
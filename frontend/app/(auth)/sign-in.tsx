@@ -5,7 +5,8 @@ import logo from "../../assets/images/logo.png";
 import FormField from "@/components/FormField";
 import CustomButton from "@/components/CustomButton";
 import { Link, router } from "expo-router";
-import { getCurrentUser, signIn } from "@/lib/appwrite";
+import { getCurrentUser, signIn } from "@/lib/dataSource";
+import { describeError } from "@/lib/errorMessages";
 import { useGlobalContext } from "@/context/GlobalProvider";
 
 
@@ -20,7 +21,7 @@ const SignIn = () => {
 
   const submit = async () => {
       if(form.email === "" || form.password === "") {
-        Alert.alert('Error', 'Please fill in all the fields')
+        return Alert.alert('Error', 'Please fill in all the fields')
       }
       setisSubmitting(true);
 
@@ -28,12 +29,12 @@ const SignIn = () => {
         await signIn(form.email, form.password);
         const result = await getCurrentUser();
         setUser(result);
-        setIsLogged(true);
-        
-        Alert.alert("Success", "User signed in successfully");
+        setIsLogged(!!result);
+
         router.replace('/home')
       } catch (error) {
-        Alert.alert('Error', 'error.message')
+        const { title, message } = describeError(error, 'sign-in');
+        Alert.alert(title, message)
       } finally {
         setisSubmitting(false)
       }
@@ -75,6 +76,13 @@ const SignIn = () => {
             placeHolder={""}
           />
 
+          <Link
+            href="/forgot-password"
+            className="text-base font-pmedium text-secondary text-right mt-3"
+          >
+            Forgot password?
+          </Link>
+
           <CustomButton
             title="Sign In"
             handlePress={submit}
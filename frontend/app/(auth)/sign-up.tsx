@@ -1,38 +1,104 @@
 import { View, ScrollView, Image, Text, Alert } from "react-native";
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { SafeAreaView } from "react-native-safe-area-context";
 import logo from "../../assets/images/logo.png";
 import FormField from "@/components/FormField";
 import CustomButton from "@/components/CustomButton";
 import { Link, router } from "expo-router";
-import { createUser } from "../../lib/appwrite";
+import { createUser, isUsernameAvailable, sendVerificationEmail } from "@/lib/dataSource";
+import { describeError } from "@/lib/errorMessages";
+import { ValidationError } from "@/lib/errors";
+import useDebounce from "@/lib/useDebounce";
+import {
+  SignUpForm,
+  normalizeSignUp,
+  validateEmail,
+  validatePassword,
+  validateUsername,
+} from "@/lib/validation";
 import { useGlobalContext } from "@/context/GlobalProvider";
 
 const SignUp = () => {
   const { setUser, setIsLogged } = useGlobalContext();
 
   const [isSubmitting, setSubmitting] = useState(false);
-  const [form, setForm] = useState({
+  const [form, setForm] = useState<SignUpForm>({
     username: "",
     email: "",
     password: "",
   });
+  // Errors only show once a field has been left, not while typing into it.
+  const [touched, setTouched] = useState<Partial<Record<keyof SignUpForm, boolean>>>({});
+  // Issues the server found that the form couldn't, e.g. a username taken meanwhile.
+  const [serverErrors, setServerErrors] = useState<Partial<Record<keyof SignUpForm, string>>>({});
+  const [availability, setAvailability] = useState<{
+    username: string;
+    status: "checking" | "available" | "taken" | "unknown";
+  } | null>(null);
 
-  const submit = async () => {
+  const normalized = normalizeSignUp(form);
+  const errors = {
+    username: validateUsername(normalized.username) ?? serverErrors.username,
+    email: validateEmail(normalized.email) ?? serverErrors.email,
+    password: validatePassword(normalized.password) ?? serverErrors.password,
+  };
 
-    if(!form.username || !form.email || !form.password) {
-      Alert.alert('Error', 'Please fill in all the fields')
-    }
+  const debouncedUsername = useDebounce(normalized.username, 500);
+  useEffect(() => {
+    if (validateUsername(debouncedUsername)) return;
+    let cancelled = false;
+    setAvailability({ username: debouncedUsername, status: "checking" });
+    isUsernameAvailable(debouncedUsername)
+      .then((available) => {
+        if (!cancelled) {
+          setAvailability({
+            username: debouncedUsername,
+            status: available ? "available" : "taken",
+          });
+        }
+      })
+      // Not worth blocking sign-up over; createUser checks again.
+      .catch(() => {
+        if (!cancelled) setAvailability({ username: debouncedUsername, status: "unknown" });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedUsername]);
+
+  const usernameStatus =
+    availability?.username === normalized.username ? availability.status : "checking";
+  if (!errors.username && usernameStatus === "taken") errors.username = "That username is taken";
+
+  const isValid =
+    !errors.username && !errors.email && !errors.password && usernameStatus !== "checking";
+
+  const update = (field: keyof SignUpForm) => (value: string) => {
+    setForm({ ...form, [field]: value });
+    setServerErrors({ ...serverErrors, [field]: undefined });
+  };
+  const touch = (field: keyof SignUpForm) => () => setTouched({ ...touched, [field]: true });
+
+  const submit = async () => {
+    if (!isValid) return;
 
     setSubmitting(true);
     try {
-      const result = await createUser(form.email, form.password, form.username);
+      const result = await createUser(normalized.email, normalized.password, normalized.username);
       setUser(result);
       setIsLogged(true);
 
-      router.replace('/home')
+      // Signed up either way; the next screen can resend a lost email.
+      const sent = await sendVerificationEmail().then(() => true, () => false);
+      router.replace({ pathname: '/verify-email', params: sent ? { sent: '1' } : {} })
     } catch (error) {
-      Alert.alert('Error', 'error.message')
+      if (error instanceof ValidationError && error.issues.length) {
+        setServerErrors(Object.fromEntries(error.issues.map(({ field, message }) => [field, message])));
+        setTouched({ username: true, email: true, password: true });
+      } else {
+        const { title, message } = describeError(error, 'sign-up');
+        Alert.alert(title, message)
+      }
     } finally {
       setSubmitting(false)
     }
@@ -59,17 +125,27 @@ const SignUp = () => {
           <FormField
             title="Username"
             value={form.username}
-            handleChangeText={(e) => setForm({ ...form, username: e })}
+            handleChangeText={update("username")}
+            onBlur={touch("username")}
+            error={touched.username ? errors.username : null}
+            hint={
+              !errors.username && usernameStatus === "checking"
+                ? "Checking availability..."
+                : null
+            }
             otherStyles="mt-10"
-            
+            autoCapitalize="none"
             placeHolder={""}
           />
 
           <FormField
             title="Email"
             value={form.email}
-            handleChangeText={(e) => setForm({ ...form, email: e })}
+            handleChangeText={update("email")}
+            onBlur={touch("email")}
+            error={touched.email ? errors.email : null}
             otherStyles="mt-7"
+            autoCapitalize="none"
             keyboardType="email-address"
             placeHolder={""}
           />
@@ -77,7 +153,9 @@ const SignUp = () => {
           <FormField
             title="Password"
             value={form.password}
-            handleChangeText={(e) => setForm({ ...form, password: e })}
+            handleChangeText={update("password")}
+            onBlur={touch("password")}
+            error={touched.password ? errors.password : null}
             otherStyles="mt-7"
             placeHolder={""}
           />
@@ -87,6 +165,7 @@ const SignUp = () => {
             handlePress={submit}
             containerStyles="mt-7"
             isLoading={isSubmitting}
+            disabled={!isValid}
           />
 
           <View className="justify-center pt-5 flex-row gap-2">
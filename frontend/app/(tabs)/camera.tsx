@@ -1,55 +1,231 @@
-import {
-  View,
-  Text,
-  FlatList,
-  Image,
-  RefreshControl,
-  Alert,
-} from "react-native";
-import React, { useEffect, useState } from "react";
+import { View, Text, ActivityIndicator, TouchableOpacity, LayoutChangeEvent } from "react-native";
+import React, { useEffect, useRef, useState } from "react";
 import { SafeAreaView } from "react-native-safe-area-context";
-import logo from "../../assets/images/logo.png";
-import SearchInput from "@/components/SearchInput";
-import HorizontalList from "@/components/HorizontalList";
-import EmptyState from "@/components/EmptyState";
-import { getAllPosts } from "@/lib/appwrite";
-import useAppwrite from "@/lib/useAppwrite";
-import ImageCard from "@/components/ImageCard";
-
-const Home = () => {
-  const { data: posts, refetch } = useAppwrite(getAllPosts);
-
-  const [refreshing, setRefreshing] = useState(false);
-  const onRefresh = async () => {
-    setRefreshing(true);
-    await refetch();
-    setRefreshing(false);
+import { CameraView, useCameraPermissions } from "expo-camera";
+import { useIsFocused } from "@react-navigation/native";
+import { router } from "expo-router";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import CustomButton from "@/components/CustomButton";
+import DetectionOverlay from "@/components/DetectionOverlay";
+import ErrorNotice from "@/components/ErrorNotice";
+import useDetector from "@/lib/useDetector";
+import { decodeBase64Jpeg } from "@/lib/detection/image";
+import { describeError } from "@/lib/errorMessages";
+import { Detection } from "@/utils/detection";
+
+// Preview frames only need to be good enough to find objects.
+const PREVIEW_QUALITY = 0.3;
+// After a failed preview frame, so a broken camera doesn't spin.
+const PREVIEW_RETRY_DELAY = 1000;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+interface Frame {
+  detections: Detection[];
+  width: number;
+  height: number;
+}
+
+const Camera = () => {
+  const [permission, requestPermission] = useCameraPermissions();
+  const { detector, isLoading: isModelLoading, error: modelError } = useDetector();
+  const isFocused = useIsFocused();
+
+  const cameraRef = useRef<CameraView>(null);
+  const isCapturingRef = useRef(false);
+  // The preview frame being taken, which the shutter waits for.
+  const previewFrameRef = useRef<Promise<unknown> | null>(null);
+  const [isCameraReady, setIsCameraReady] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [frame, setFrame] = useState<Frame | null>(null);
+  const [previewError, setPreviewError] = useState<unknown>(null);
+  const [captureError, setCaptureError] = useState<unknown>(null);
+  const [layout, setLayout] = useState({ width: 0, height: 0 });
+
+  const onLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setLayout({ width, height });
+  };
+
+  // Takes a picture and runs it through the detector.
+  const captureAndDetect = async (quality: number) => {
+    const picture = await cameraRef.current?.takePictureAsync({
+      quality,
+      base64: true,
+      shutterSound: false,
+    });
+    if (!picture?.base64) return null;
+    // Without a detector the photo can still be appraised, just unannotated.
+    if (!detector) return { picture, detections: [] };
+
+    const image = decodeBase64Jpeg(picture.base64);
+    try {
+      const detections = await detector.detect(image);
+      return { picture, detections };
+    } finally {
+      image.dispose();
+    }
+  };
+
+  // The preview is unmounted while the tab is hidden and has to warm up again.
+  useEffect(() => {
+    if (!isFocused) setIsCameraReady(false);
+  }, [isFocused]);
+
+  // Live detection loop: runs back to back while the tab is visible, and
+  // pauses while the shutter takes the full-quality photo.
+  useEffect(() => {
+    if (!isFocused || !isCameraReady || !detector) return;
+    let isActive = true;
+
+    const loop = async () => {
+      while (isActive) {
+        if (isCapturingRef.current) {
+          await wait(100);
+          continue;
+        }
+        const pending = captureAndDetect(PREVIEW_QUALITY);
+        previewFrameRef.current = pending;
+        try {
+          const result = await pending;
+          if (isActive && result) {
+            setFrame({
+              detections: result.detections,
+              width: result.picture.width,
+              height: result.picture.height,
+            });
+            setPreviewError(null);
+          }
+        } catch (error) {
+          // Shown until a frame goes through again.
+          if (isActive) setPreviewError(error);
+          await wait(PREVIEW_RETRY_DELAY);
+        } finally {
+          previewFrameRef.current = null;
+        }
+      }
+    };
+    loop();
+
+    return () => {
+      isActive = false;
+      setFrame(null);
+      setPreviewError(null);
+    };
+  }, [isFocused, isCameraReady, detector]);
+
+  const capture = async () => {
+    if (isCapturingRef.current) return;
+    isCapturingRef.current = true;
+    setIsCapturing(true);
+    setCaptureError(null);
+
+    try {
+      // The camera takes one picture at a time.
+      await previewFrameRef.current?.catch(() => undefined);
+      const result = await captureAndDetect(1);
+      if (!result) throw new Error("The camera didn't return a photo");
+
+      router.push({
+        pathname: "/appraise",
+        params: {
+          thumbnail: result.picture.uri,
+          width: String(result.picture.width),
+          height: String(result.picture.height),
+          detections: JSON.stringify(result.detections),
+        },
+      });
+    } catch (error) {
+      setCaptureError(error);
+    } finally {
+      isCapturingRef.current = false;
+      setIsCapturing(false);
+    }
   };
 
+  if (!permission) {
+    return <SafeAreaView className="bg-primary h-full" />;
+  }
+
+  if (!permission.granted) {
+    return (
+      <SafeAreaView className="bg-primary h-full justify-center px-4">
+        <Text className="text-2xl font-psemibold text-white text-center">
+          Camera access needed
+        </Text>
+        <Text className="font-pmedium text-sm text-gray-100 text-center mt-2">
+          Appraisal uses your camera to detect the items you want to appraise
+        </Text>
+        <CustomButton
+          title="Allow Camera"
+          handlePress={requestPermission}
+          containerStyles="w-full mt-7"
+        />
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView className="bg-primary h-full">
-      <View className="my-6 px-4 space-y-6">
-        <View className="justify-between items-start flex-row mb-6">
-          <View>
-            <Text className="font-pmedium text-sm text-gray-100">
-              Welcome Back
+      <View className="flex-1 m-4 rounded-xl overflow-hidden border-2 border-black-200" onLayout={onLayout}>
+        {isFocused && (
+          <CameraView
+            ref={cameraRef}
+            style={{ flex: 1 }}
+            facing="back"
+            animateShutter={false}
+            onCameraReady={() => setIsCameraReady(true)}
+          />
+        )}
+
+        {frame && (
+          <DetectionOverlay
+            detections={frame.detections}
+            imageWidth={frame.width}
+            imageHeight={frame.height}
+            viewWidth={layout.width}
+            viewHeight={layout.height}
+          />
+        )}
+
+        {(isModelLoading || !!modelError || !!previewError) && (
+          <View className="absolute top-4 left-4 right-4 flex-row items-center bg-black-100 rounded-xl px-4 py-2">
+            {isModelLoading && <ActivityIndicator color="#a5bbde" />}
+            <Text className="text-gray-100 font-pregular text-sm ml-2">
+              {modelError
+                ? "Detection unavailable"
+                : previewError
+                  ? `Live detection paused. ${describeError(previewError).message}`
+                  : "Loading detector..."}
             </Text>
-            <Text className="text-2xl font-psemibold text-white">Wiiwho</Text>
           </View>
-          <View className="">
-            <Image
-              source={logo}
-              style={{
-                height: 57,
-                width: 200,
-              }}
-              resizeMode="contain"
-            />
+        )}
+
+        {!!captureError && (
+          <View className="absolute bottom-4 left-4 right-4 bg-black-100 rounded-xl py-4">
+            <ErrorNotice error={captureError} context="generic" onRetry={capture} />
           </View>
-        </View>
+        )}
+      </View>
+
+      <View className="items-center mb-32">
+        <TouchableOpacity
+          onPress={capture}
+          disabled={isModelLoading || isCapturing}
+          activeOpacity={0.7}
+          className={`w-[72px] h-[72px] rounded-full border-4 border-secondary justify-center items-center ${
+            isModelLoading || isCapturing ? "opacity-50" : ""
+          }`}
+        >
+          {isCapturing ? (
+            <ActivityIndicator color="#a5bbde" />
+          ) : (
+            <MaterialIcons name="camera" size={36} color="#a5bbde" />
+          )}
+        </TouchableOpacity>
       </View>
     </SafeAreaView>
   );
 };
 
-export default Home;
+export default Camera;
@@ -1,74 +1,212 @@
-import { View, Text, FlatList, Image, RefreshControl, Alert } from "react-native";
-import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  FlatList,
+  Image,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+  TouchableOpacity,
+} from "react-native";
+import React, { useCallback, useMemo, useRef } from "react";
 import { SafeAreaView } from "react-native-safe-area-context";
 import logo from "../../assets/images/logo.png";
 import SearchInput from "@/components/SearchInput";
 import HorizontalList from "@/components/HorizontalList";
 import EmptyState from "@/components/EmptyState";
-import { getAllPosts } from "@/lib/appwrite";
-import useAppwrite from "@/lib/useAppwrite";
+import ErrorNotice from "@/components/ErrorNotice";
+import { getAllPosts, PageRequest } from "@/lib/dataSource";
+import { countActiveFilters } from "@/lib/feedQuery";
+import usePagination from "@/lib/usePagination";
+import { queryKeys } from "@/lib/queryKeys";
+import { PERSISTENCE_TTL } from "@/lib/persistence";
+import { parseAppraisal, parseEach } from "@/lib/models";
+import FeedFilterBar from "@/components/FeedFilterBar";
+import { useFeedFilters } from "@/context/FeedFiltersProvider";
+import { useGlobalContext } from "@/context/GlobalProvider";
 import ImageCard from "@/components/ImageCard";
+import useOutbox from "@/lib/useOutbox";
+import useRealtimeFeed from "@/lib/useRealtimeFeed";
+import { Appraisal } from "@/lib/models";
+import { OutboxEntry, discardEntry, retryEntry, toPendingAppraisal } from "@/lib/outbox";
 
 
 const Home = () => {
-const { data: posts, refetch } = useAppwrite(getAllPosts);
+const { user } = useGlobalContext();
+const { filters, setFilters, sort, setSort } = useFeedFilters();
+const fetchPosts = useCallback(
+  (page: PageRequest) => getAllPosts(page, { filters, sort }),
+  [filters, sort]
+);
+const {
+  items: posts,
+  isLoading,
+  isLoadingMore,
+  isRefreshing,
+  hasMore,
+  error,
+  loadMore,
+  refresh,
+  retry,
+  updateItems,
+} = usePagination(fetchPosts, {
+  key: queryKeys.feed,
+  persist: {
+    key: `feed:${JSON.stringify({ filters, sort })}`,
+    ttl: PERSISTENCE_TTL.feed,
+    parse: (raw) => parseEach(raw, parseAppraisal),
+  },
+});
 
-const [refreshing, setRefreshing] = useState(false)
-const onRefresh = async () => {
-  setRefreshing(true);
-  await refetch();
-  setRefreshing(false);
-}
+// Appraisals still being saved go on top. Once saved, one keeps its id, so
+// it's never listed twice while the feed catches up.
+const outbox = useOutbox(user?.$id);
+const pending = useMemo(
+  () => new Map(outbox.map((entry) => [entry.id, entry])),
+  [outbox]
+);
+const pendingIds = useMemo(() => new Set(pending.keys()), [pending]);
+const items = useMemo(
+  () =>
+    user
+      ? [
+          ...outbox.map((entry) => toPendingAppraisal(entry, user)),
+          ...posts.filter((post) => !pending.has(post.$id)),
+        ]
+      : posts,
+  [outbox, pending, posts, user]
+);
+
+const listRef = useRef<FlatList<Appraisal>>(null);
+const fetchLatest = useCallback(() => fetchPosts({}), [fetchPosts]);
+const { incoming, takeIncoming } = useRealtimeFeed({
+  items: posts,
+  updateItems,
+  fetchLatest,
+  filters,
+  pendingIds,
+});
+
+// New appraisals belong on top of the newest-first feed; any other order
+// has to come from the server.
+const showIncoming = () => {
+  const taken = takeIncoming();
+  if (sort === "newest") updateItems((current) => [...taken, ...current]);
+  else refresh();
+  listRef.current?.scrollToOffset({ offset: 0, animated: true });
+};
+
+const confirmRetry = (entry: OutboxEntry) =>
+  Alert.alert("Couldn't save this appraisal", entry.lastError ?? "Please try again.", [
+    { text: "Discard", style: "destructive", onPress: () => discardEntry(entry.id) },
+    { text: "Retry", onPress: () => retryEntry(entry.id) },
+  ]);
 
   return (
     <SafeAreaView className="bg-primary h-full">
-      <FlatList
-        data={posts as Array<{ $id: string; objectName: string }>}
-        keyExtractor={(item) => item.$id}
-        renderItem={({ item }) => (
-          <ImageCard image={item}/>
-        )}
-        ListHeaderComponent={() => (
-          <View className="my-6 px-4 space-y-6">
-            <View className="justify-between items-start flex-row mb-6">
-              <View>
-                <Text className="font-pmedium text-sm text-gray-100">
-                  Welcome Back
-                </Text>
-                <Text className="text-2xl font-psemibold text-white">
-                  Wiiwho
-                </Text>
-              </View>
-              <View className="">
-                <Image
-                source={logo}
-                style={{
-                  height: 57,
-                  width: 200
-                }}
-                resizeMode="contain"
-                />
+      <FeedFilterBar
+        filters={filters}
+        sort={sort}
+        onChangeFilters={setFilters}
+        onChangeSort={setSort}
+        currentUserId={user?.$id}
+      />
+      <View className="flex-1">
+        <FlatList
+          ref={listRef}
+          data={items}
+          keyExtractor={(item) => item.$id}
+          renderItem={({ item }) => {
+            const entry = pending.get(item.$id);
+            return (
+              <ImageCard
+                image={item}
+                syncStatus={entry?.status}
+                onPressSyncStatus={entry?.status === "failed" ? () => confirmRetry(entry) : undefined}
+              />
+            );
+          }}
+          ListHeaderComponent={() => (
+            <View className="my-6 px-4 space-y-6">
+              <View className="justify-between items-start flex-row mb-6">
+                <View>
+                  <Text className="font-pmedium text-sm text-gray-100">
+                    Welcome Back
+                  </Text>
+                  <Text className="text-2xl font-psemibold text-white">
+                    Wiiwho
+                  </Text>
+                </View>
+                <View className="">
+                  <Image
+                  source={logo}
+                  style={{
+                    height: 57,
+                    width: 200
+                  }}
+                  resizeMode="contain"
+                  />
+                </View>
               </View>
-            </View>
-            <SearchInput />
+              <SearchInput />
 
-            <View className="w-ful flex-1 pt-5 pb-8">
-                <Text className="text-gray-100 text-lg font-pregular mb-3">
-                  Latest sigmas
-                </Text>
+              <View className="w-ful flex-1 pt-5 pb-8">
+                  <Text className="text-gray-100 text-lg font-pregular mb-3">
+                    Latest sigmas
+                  </Text>
 
-              <HorizontalList posts={[{ id: 1}, { id: 2 }, {id: 3}]} />
+                <HorizontalList posts={[{ id: 1}, { id: 2 }, {id: 3}]} />
+              </View>
             </View>
-          </View>
-        )}
-        ListEmptyComponent={() => (
-          <EmptyState 
-          title="No Images Found"
-          subtitle="Appraise Some Items To Fill Your Inventory"
-          />
+          )}
+          ListEmptyComponent={() =>
+            isLoading ? (
+              <ActivityIndicator className="mt-10" color="#a5bbde" />
+            ) : error ? (
+              <ErrorNotice error={error} onRetry={refresh} containerStyles="mt-10" />
+            ) : (
+              <EmptyState
+              title="No Images Found"
+              subtitle={
+                countActiveFilters(filters) > 0
+                  ? "No Appraisals Match These Filters"
+                  : "Appraise Some Items To Fill Your Inventory"
+              }
+              />
+            )
+          }
+          ListFooterComponent={() => {
+            if (isLoadingMore) {
+              return <ActivityIndicator className="mb-10" color="#a5bbde" />;
+            }
+            if (error && posts.length > 0) {
+              return <ErrorNotice error={error} onRetry={retry} containerStyles="mb-10" />;
+            }
+            if (!hasMore && posts.length > 0) {
+              return (
+                <Text className="text-gray-100 font-pregular text-sm text-center mb-10">
+                  You're all caught up
+                </Text>
+              );
+            }
+            return null;
+          }}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={refresh}/>}
+        />
+        {incoming.length > 0 && (
+          <TouchableOpacity
+            onPress={showIncoming}
+            activeOpacity={0.8}
+            className="absolute top-3 self-center bg-secondary rounded-full px-4 py-2"
+          >
+            <Text className="text-primary font-psemibold text-sm">
+              {incoming.length} new {incoming.length === 1 ? "appraisal" : "appraisals"}
+            </Text>
+          </TouchableOpacity>
         )}
-        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh}/>}
-      />
+      </View>
     </SafeAreaView>
   );
 };
@@ -4,52 +4,189 @@ import {
   FlatList,
   Image,
   RefreshControl,
-  Alert,
+  TouchableOpacity,
+  ActivityIndicator,
 } from "react-native";
-import React, { useEffect, useState } from "react";
+import React, { useCallback } from "react";
 import { SafeAreaView } from "react-native-safe-area-context";
-import logo from "../../assets/images/logo.png";
-import SearchInput from "@/components/SearchInput";
-import HorizontalList from "@/components/HorizontalList";
+import { router } from "expo-router";
+import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
 import EmptyState from "@/components/EmptyState";
-import { getAllPosts } from "@/lib/appwrite";
-import useAppwrite from "@/lib/useAppwrite";
-import ImageCard from "@/components/ImageCard";
+import ErrorNotice from "@/components/ErrorNotice";
+import AppraisalTile from "@/components/AppraisalTile";
+import InfoBox from "@/components/InfoBox";
+import { getUserPosts, getUserStats, PageRequest, signOut } from "@/lib/dataSource";
+import { formatValueRange } from "@/lib/valuation";
+import usePagination from "@/lib/usePagination";
+import useQuery from "@/lib/useQuery";
+import { queryKeys } from "@/lib/queryKeys";
+import { PERSISTENCE_TTL } from "@/lib/persistence";
+import { parseAppraisal, parseEach } from "@/lib/models";
+import { useGlobalContext } from "@/context/GlobalProvider";
 
-const Home = () => {
-  const { data: posts, refetch } = useAppwrite(getAllPosts);
+const Profile = () => {
+  const { user, endSession } = useGlobalContext();
+  const userId: string = user?.$id ?? "";
+
+  const fetchPosts = useCallback(
+    async (page: PageRequest) =>
+      userId ? getUserPosts(userId, page) : { documents: [], nextCursor: null },
+    [userId]
+  );
+  const {
+    items: posts,
+    isLoading,
+    isLoadingMore,
+    isRefreshing,
+    hasMore,
+    error,
+    loadMore,
+    refresh,
+    retry,
+  } = usePagination(fetchPosts, {
+    key: queryKeys.userPosts,
+    persist: userId
+      ? {
+          key: `userPosts:${userId}`,
+          ttl: PERSISTENCE_TTL.userPosts,
+          parse: (raw) => parseEach(raw, parseAppraisal),
+        }
+      : undefined,
+  });
+
+  const { data: stats, refetch: refetchStats } = useQuery(
+    queryKeys.userStats,
+    getUserStats,
+    [userId],
+    { enabled: !!userId }
+  );
 
-  const [refreshing, setRefreshing] = useState(false);
   const onRefresh = async () => {
-    setRefreshing(true);
-    await refetch();
-    setRefreshing(false);
+    await Promise.all([refresh(), refetchStats()]);
+  };
+
+  // Signs out on this device even when the server can't be told, e.g.
+  // offline; the server session then expires by itself.
+  const logout = async () => {
+    try {
+      await signOut();
+    } catch {
+      // Nothing to report: the user is signed out here either way.
+    } finally {
+      endSession();
+    }
   };
 
+  const busiestTier = Math.max(1, ...(stats?.rarities.map(({ count }) => count) ?? []));
+
   return (
     <SafeAreaView className="bg-primary h-full">
-      <View className="my-6 px-4 space-y-6">
-        <View className="justify-between items-start flex-row mb-6">
-          <View>
-            <Text className="font-pmedium text-sm text-gray-100">
-              Welcome Back
-            </Text>
-            <Text className="text-2xl font-psemibold text-white">Wiiwho</Text>
+      <FlatList
+        data={posts}
+        keyExtractor={(item) => item.$id}
+        numColumns={2}
+        contentContainerStyle={{ paddingHorizontal: 10 }}
+        renderItem={({ item }) => <AppraisalTile {...item} />}
+        ListHeaderComponent={
+          <View className="w-full mt-6 mb-6 px-1.5">
+            <View className="w-full flex-row justify-end mb-6">
+              <TouchableOpacity onPress={() => router.push("/sessions")} className="mr-6">
+                <FontAwesome5 name="shield-alt" size={22} color="#a5bbde" />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={logout}>
+                <FontAwesome5 name="sign-out-alt" size={22} color="#FF6B6B" />
+              </TouchableOpacity>
+            </View>
+
+            <View className="items-center">
+              <View className="w-16 h-16 border border-secondary rounded-lg justify-center items-center">
+                <Image
+                  source={{ uri: user?.avatar }}
+                  className="w-[90%] h-[90%] rounded-lg"
+                  resizeMode="cover"
+                />
+              </View>
+              <InfoBox
+                title={user?.username ?? ""}
+                containerStyles="mt-5"
+                titleStyles="text-lg"
+              />
+              {user && !user.emailVerification && (
+                <TouchableOpacity
+                  onPress={() => router.push("/verify-email")}
+                  className="mt-2 flex-row items-center"
+                >
+                  <FontAwesome5 name="exclamation-circle" size={12} color="#a5bbde" />
+                  <Text className="text-secondary font-pmedium text-sm ml-1.5">
+                    Verify your email
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {stats && (
+              <>
+                <View className="mt-5 flex-row justify-center">
+                  <InfoBox
+                    title={stats.count.toString()}
+                    subtitle="Appraisals"
+                    containerStyles="mr-10"
+                    titleStyles="text-xl"
+                  />
+                  <InfoBox
+                    title={formatValueRange(stats.totalValue)}
+                    subtitle="Estimated value"
+                    titleStyles="text-xl"
+                  />
+                </View>
+
+                <View className="mt-6 px-2">
+                  {stats.rarities.map(({ rarity, count }) => (
+                    <View key={rarity} className="flex-row items-center mb-1.5">
+                      <Text className="w-24 text-gray-100 font-pregular text-xs">{rarity}</Text>
+                      <View className="flex-1 h-2 rounded-full bg-black-100 overflow-hidden">
+                        <View
+                          className="h-full rounded-full bg-secondary"
+                          style={{ width: `${(count / busiestTier) * 100}%` }}
+                        />
+                      </View>
+                      <Text className="w-8 text-right text-white font-pmedium text-xs">
+                        {count}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              </>
+            )}
           </View>
-          <View className="">
-            <Image
-              source={logo}
-              style={{
-                height: 57,
-                width: 200,
-              }}
-              resizeMode="contain"
+        }
+        ListEmptyComponent={() =>
+          isLoading ? (
+            <ActivityIndicator className="mt-10" color="#a5bbde" />
+          ) : error ? (
+            <ErrorNotice error={error} onRetry={refresh} containerStyles="mt-10" />
+          ) : (
+            <EmptyState
+              title="No Appraisals Yet"
+              subtitle="Items You Appraise Will Show Up Here"
             />
-          </View>
-        </View>
-      </View>
+          )
+        }
+        ListFooterComponent={() => {
+          if (isLoadingMore) {
+            return <ActivityIndicator className="mb-10" color="#a5bbde" />;
+          }
+          if (error && posts.length > 0) {
+            return <ErrorNotice error={error} onRetry={retry} containerStyles="mb-10" />;
+          }
+          return null;
+        }}
+        onEndReached={hasMore ? loadMore : undefined}
+        onEndReachedThreshold={0.5}
+        refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={onRefresh} />}
+      />
     </SafeAreaView>
   );
 };
 
-export default Home;
+export default Profile;
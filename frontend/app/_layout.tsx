@@ -4,6 +4,7 @@ import { useFonts } from 'expo-font';
 import { useEffect } from 'react';
 import "../global.css"
 import GlobalProvider from "../context/GlobalProvider";
+import FeedFiltersProvider from "../context/FeedFiltersProvider";
 
 SplashScreen.preventAutoHideAsync();
 
@@ -34,13 +35,18 @@ const RootLayout = () => {
   
   return (
     <GlobalProvider>
+    <FeedFiltersProvider>
     <Stack>
       <Stack.Screen name="index" options={{ headerShown: false }}/>
       <Stack.Screen name="(auth)" options={{ headerShown: false }}/>
       <Stack.Screen name="(tabs)" options={{ headerShown: false }}/>
       {/* New appraisal screen */}
       <Stack.Screen name="(appraise)" options={{ headerShown: false }}/>
+      <Stack.Screen name="search/[query]" options={{ headerShown: false }}/>
+      <Stack.Screen name="sessions" options={{ headerShown: false }}/>
+      <Stack.Screen name="verify-email" options={{ headerShown: false }}/>
     </Stack>
+    </FeedFiltersProvider>
     </GlobalProvider>
   )
 }
@@ -1,12 +1,120 @@
-import { View, Text } from 'react-native'
-import React from 'react'
+import { View, Text, FlatList, TouchableOpacity, ActivityIndicator } from "react-native";
+import React, { useCallback, useEffect, useState } from "react";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router, useLocalSearchParams } from "expo-router";
+import SearchInput from "@/components/SearchInput";
+import EmptyState from "@/components/EmptyState";
+import ErrorNotice from "@/components/ErrorNotice";
+import ImageCard from "@/components/ImageCard";
+import { PageRequest, searchPosts } from "@/lib/dataSource";
+import usePagination from "@/lib/usePagination";
+import { queryKeys } from "@/lib/queryKeys";
+import { addRecentSearch, clearRecentSearches, getRecentSearches } from "@/lib/recentSearches";
 
 const Search = () => {
+  const { query = "" } = useLocalSearchParams<{ query: string }>();
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+
+  const fetchResults = useCallback(
+    (page: PageRequest) => searchPosts(query, page),
+    [query]
+  );
+  const { items: posts, isLoading, isLoadingMore, hasMore, error, loadMore, refresh, retry } =
+    usePagination(fetchResults, { key: queryKeys.search });
+
+  // Submitting a search saves it (see SearchInput); this only reads them.
+  useEffect(() => {
+    getRecentSearches().then(setRecentSearches);
+  }, [query]);
+
+  const searchAgain = async (recent: string) => {
+    setRecentSearches(await addRecentSearch(recent));
+    router.setParams({ query: recent });
+  };
+
+  const onClearRecent = async () => {
+    await clearRecentSearches();
+    setRecentSearches([]);
+  };
+
   return (
-    <View>
-      <Text>Search</Text>
-    </View>
-  )
-}
+    <SafeAreaView className="bg-primary h-full">
+      <FlatList
+        data={posts}
+        keyExtractor={(item) => item.$id}
+        renderItem={({ item }) => <ImageCard image={item} />}
+        // An element rather than a component, so the input keeps focus across re-renders.
+        ListHeaderComponent={
+          <View className="my-6 px-4">
+            <Text className="font-pmedium text-sm text-gray-100">
+              Search Results
+            </Text>
+            <Text className="text-2xl font-psemibold text-white" numberOfLines={1}>
+              {query}
+            </Text>
+
+            <View className="mt-6 mb-4">
+              <SearchInput initialQuery={query} />
+            </View>
+
+            {recentSearches.length > 0 && (
+              <View>
+                <View className="flex-row justify-between items-center mb-2">
+                  <Text className="text-gray-100 font-pregular text-sm">
+                    Recent searches
+                  </Text>
+                  <TouchableOpacity onPress={onClearRecent}>
+                    <Text className="text-secondary font-pmedium text-sm">Clear</Text>
+                  </TouchableOpacity>
+                </View>
+                <View className="flex-row flex-wrap gap-2">
+                  {recentSearches.map((recent) => (
+                    <TouchableOpacity
+                      key={recent}
+                      onPress={() => searchAgain(recent)}
+                      className={`px-3 py-1.5 rounded-full border ${
+                        recent === query ? "border-secondary" : "border-black-200"
+                      } bg-black-100`}
+                    >
+                      <Text className="text-white font-pregular text-sm">{recent}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+          </View>
+        }
+        ListEmptyComponent={() =>
+          isLoading ? (
+            <ActivityIndicator className="mt-10" color="#a5bbde" />
+          ) : error ? (
+            <ErrorNotice error={error} onRetry={refresh} containerStyles="mt-10" />
+          ) : (
+            <EmptyState
+              title="No Items Found"
+              subtitle={
+                query.trim()
+                  ? `Nothing appraised matches "${query}"`
+                  : "Type something to search for"
+              }
+            />
+          )
+        }
+        ListFooterComponent={() => {
+          if (isLoadingMore) {
+            return <ActivityIndicator className="mb-10" color="#a5bbde" />;
+          }
+          if (error && posts.length > 0) {
+            return <ErrorNotice error={error} onRetry={retry} containerStyles="mb-10" />;
+          }
+          return null;
+        }}
+        onEndReached={hasMore ? loadMore : undefined}
+        onEndReachedThreshold={0.5}
+        keyboardShouldPersistTaps="handled"
+      />
+    </SafeAreaView>
+  );
+};
 
-export default Search
\ No newline at end of file
+export default Search;
@@ -0,0 +1,138 @@
+import { View, Text, FlatList, TouchableOpacity, RefreshControl, Alert } from "react-native";
+import React from "react";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router } from "expo-router";
+import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
+import type { Models } from "react-native-appwrite";
+import CustomButton from "@/components/CustomButton";
+import ErrorNotice from "@/components/ErrorNotice";
+import { listSessions, revokeSession, signOutEverywhere } from "@/lib/dataSource";
+import { describeError } from "@/lib/errorMessages";
+import useQuery, { useMutation } from "@/lib/useQuery";
+import { queryKeys } from "@/lib/queryKeys";
+import { useGlobalContext } from "@/context/GlobalProvider";
+
+/** e.g. "Chrome on Android" or "Appraisal on iOS", skipping whatever is unknown. */
+const describeSession = ({ clientName, osName, deviceModel }: Models.Session) => {
+  const client = [clientName, osName].filter(Boolean).join(" on ");
+  return [client || "Unknown device", deviceModel].filter(Boolean).join(" · ");
+};
+
+const Sessions = () => {
+  const { endSession } = useGlobalContext();
+  const {
+    data: sessions = [],
+    error,
+    isLoading,
+    isRefetching,
+    refetch,
+  } = useQuery(queryKeys.sessions, listSessions, [], { staleTime: 0 });
+  const { mutate: revokeMutation } = useMutation(revokeSession, {
+    invalidates: [queryKeys.sessions],
+  });
+
+  const revoke = (session: Models.Session) => {
+    Alert.alert(
+      "Revoke session",
+      session.current
+        ? "This will sign you out on this device."
+        : `Sign out ${describeSession(session)}?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Revoke",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await revokeMutation(session.$id);
+            } catch (error) {
+              const { title, message } = describeError(error);
+              return Alert.alert(title, message);
+            }
+            if (session.current) endSession();
+          },
+        },
+      ]
+    );
+  };
+
+  const signOutAll = () => {
+    Alert.alert("Sign out of all devices", "Every session, including this one, will end.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Sign out",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await signOutEverywhere();
+            endSession();
+          } catch (error) {
+            const { title, message } = describeError(error);
+            Alert.alert(title, message);
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <SafeAreaView className="bg-primary h-full">
+      <FlatList
+        data={sessions}
+        keyExtractor={(item) => item.$id}
+        contentContainerStyle={{ paddingHorizontal: 16 }}
+        ListHeaderComponent={
+          <View className="my-6">
+            <TouchableOpacity onPress={() => router.back()} className="mb-6">
+              <FontAwesome5 name="arrow-left" size={20} color="#a5bbde" />
+            </TouchableOpacity>
+            <Text className="text-2xl font-psemibold text-white">Active sessions</Text>
+            <Text className="font-pregular text-sm text-gray-100 mt-1">
+              Devices currently signed in to your account
+            </Text>
+          </View>
+        }
+        renderItem={({ item }) => (
+          <View className="flex-row items-center bg-black-100 rounded-xl px-4 py-3 mb-3">
+            <View className="flex-1">
+              <Text className="text-white font-psemibold text-sm" numberOfLines={1}>
+                {describeSession(item)}
+              </Text>
+              <Text className="text-gray-100 font-pregular text-xs mt-1">
+                {[item.ip, item.countryName].filter(Boolean).join(" · ")}
+              </Text>
+              <Text className="text-gray-100 font-pregular text-xs">
+                Signed in {new Date(item.$createdAt).toLocaleDateString()}
+              </Text>
+            </View>
+            {item.current && (
+              <Text className="text-secondary font-pmedium text-xs mr-3">This device</Text>
+            )}
+            <TouchableOpacity onPress={() => revoke(item)}>
+              <FontAwesome5 name="times-circle" size={20} color="#FF6B6B" />
+            </TouchableOpacity>
+          </View>
+        )}
+        ListEmptyComponent={() =>
+          isLoading ? null : error ? (
+            <ErrorNotice error={error} context="generic" onRetry={refetch} />
+          ) : (
+            <Text className="text-gray-100 font-pregular text-sm text-center mt-6">
+              No active sessions found
+            </Text>
+          )
+        }
+        ListFooterComponent={
+          <CustomButton
+            title="Sign out of all devices"
+            handlePress={signOutAll}
+            containerStyles="mt-4 mb-10"
+          />
+        }
+        refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} />}
+      />
+    </SafeAreaView>
+  );
+};
+
+export default Sessions;
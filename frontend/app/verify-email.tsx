@@ -0,0 +1,161 @@
+import { View, Text, ActivityIndicator, Alert } from "react-native";
+import React, { useEffect, useRef, useState } from "react";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router, useLocalSearchParams } from "expo-router";
+import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
+import CustomButton from "@/components/CustomButton";
+import ErrorNotice from "@/components/ErrorNotice";
+import { confirmEmailVerification, getCurrentUser, sendVerificationEmail } from "@/lib/dataSource";
+import { describeError } from "@/lib/errorMessages";
+import useCooldown from "@/lib/useCooldown";
+import { useGlobalContext } from "@/context/GlobalProvider";
+
+const RESEND_COOLDOWN = 60;
+
+/**
+ * Asks the user to confirm their email, with a cooled-down resend. Opened
+ * from the emailed link (with `userId` and `secret`) it confirms instead,
+ * and after sign-up with `sent` once the first email is on its way.
+ */
+const VerifyEmail = () => {
+  const { userId, secret, sent } = useLocalSearchParams<{
+    userId?: string;
+    secret?: string;
+    sent?: string;
+  }>();
+  const { user, setUser, isLoggedIn, isLoading } = useGlobalContext();
+  const cooldown = useCooldown("email-verification", RESEND_COOLDOWN);
+  const [isSending, setIsSending] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [confirmation, setConfirmation] = useState<{
+    status: "confirming" | "failed";
+    error?: unknown;
+  } | null>(userId && secret ? { status: "confirming" } : null);
+
+  // The email sent at sign-up counts towards the cooldown.
+  const startedFromSignUp = useRef(false);
+  useEffect(() => {
+    if (sent && !startedFromSignUp.current) {
+      startedFromSignUp.current = true;
+      cooldown.start();
+    }
+  }, [sent, cooldown.start]);
+
+  const refreshUser = async () => {
+    const current = await getCurrentUser();
+    if (current) setUser(current);
+    return current;
+  };
+
+  // Confirming needs the session, so wait until it's been restored.
+  useEffect(() => {
+    if (!userId || !secret || isLoading || !isLoggedIn) return;
+    confirmEmailVerification(userId, secret)
+      .then(refreshUser)
+      .then(() => setConfirmation(null))
+      .catch((error) => setConfirmation({ status: "failed", error }));
+  }, [userId, secret, isLoading, isLoggedIn]);
+
+  const resend = async () => {
+    setIsSending(true);
+    try {
+      await sendVerificationEmail();
+      cooldown.start();
+      setConfirmation(null);
+    } catch (error) {
+      const { title, message } = describeError(error);
+      Alert.alert(title, message);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const checkAgain = async () => {
+    setIsChecking(true);
+    try {
+      const current = await refreshUser();
+      if (!current?.emailVerification) {
+        Alert.alert("Not verified yet", "Open the link in the email we sent you, then try again.");
+      }
+    } catch (error) {
+      const { title, message } = describeError(error);
+      Alert.alert(title, message);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  let content: React.ReactNode;
+  if (!isLoading && !isLoggedIn) {
+    content = (
+      <>
+        <Text className="text-base text-gray-100 font-pregular text-center mt-3">
+          Sign in, then open the link from the email again to finish verifying.
+        </Text>
+        <CustomButton
+          title="Sign In"
+          handlePress={() => router.replace("/sign-in")}
+          containerStyles="w-full mt-7"
+        />
+      </>
+    );
+  } else if (isLoading || confirmation?.status === "confirming") {
+    content = <ActivityIndicator className="mt-7" color="#a5bbde" />;
+  } else if (user?.emailVerification) {
+    content = (
+      <>
+        <Text className="text-base text-gray-100 font-pregular text-center mt-3">
+          {user.email} is verified.
+        </Text>
+        <CustomButton
+          title="Continue"
+          handlePress={() => router.replace("/home")}
+          containerStyles="w-full mt-7"
+        />
+      </>
+    );
+  } else {
+    content = (
+      <>
+        {confirmation?.status === "failed" ? (
+          <ErrorNotice error={confirmation.error} context="generic" containerStyles="mt-3" />
+        ) : (
+          <Text className="text-base text-gray-100 font-pregular text-center mt-3">
+            We sent a link to {user?.email}. Open it on this device to verify your address.
+          </Text>
+        )}
+        <CustomButton
+          title={cooldown.isCoolingDown ? `Resend in ${cooldown.remaining}s` : "Resend Email"}
+          handlePress={resend}
+          containerStyles="w-full mt-7"
+          isLoading={isSending}
+          disabled={cooldown.isCoolingDown}
+        />
+        <CustomButton
+          title="I've Verified It"
+          handlePress={checkAgain}
+          containerStyles="w-full mt-4"
+          isLoading={isChecking}
+        />
+        <Text
+          className="text-lg font-psemibold text-secondary mt-5"
+          onPress={() => router.replace("/home")}
+        >
+          Later
+        </Text>
+      </>
+    );
+  }
+
+  return (
+    <SafeAreaView className="bg-primary flex-1">
+      <View className="flex-1 items-center justify-center px-4">
+        <FontAwesome5 name="envelope-open-text" size={48} color="#a5bbde" />
+        <Text className="text-2xl text-white font-psemibold mt-6">Verify your email</Text>
+        {content}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+export default VerifyEmail;
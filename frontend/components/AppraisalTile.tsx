@@ -0,0 +1,26 @@
+import React from "react";
+import { View, Text, Image } from "react-native";
+
+/** The props expected by the AppraisalTile component. */
+interface AppraisalTileProps {
+  objectImage: string;
+  objectName: string;
+  rarity: string;
+}
+
+/** A square thumbnail of one appraisal, for grids. */
+const AppraisalTile: React.FC<AppraisalTileProps> = ({ objectImage, objectName, rarity }) => {
+  return (
+    <View className="flex-1 m-1.5 rounded-xl overflow-hidden bg-black-100">
+      <Image source={{ uri: objectImage }} className="w-full aspect-square" resizeMode="cover" />
+      <View className="px-2 py-1.5">
+        <Text className="text-white font-psemibold text-xs" numberOfLines={1}>
+          {objectName}
+        </Text>
+        <Text className="text-gray-100 font-pregular text-xs">{rarity}</Text>
+      </View>
+    </View>
+  );
+};
+
+export default AppraisalTile;
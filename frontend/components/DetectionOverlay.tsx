@@ -0,0 +1,77 @@
+import React from "react";
+import { StyleSheet, View } from "react-native";
+import Svg, { Rect, Text as SvgText } from "react-native-svg";
+import { Detection } from "@/utils/detection";
+
+/** The props expected by the DetectionOverlay component. */
+interface DetectionOverlayProps {
+  detections: Detection[];
+  /** Size of the image the detection boxes were measured on. */
+  imageWidth: number;
+  imageHeight: number;
+  /** On-screen size of the view the image is displayed in. */
+  viewWidth: number;
+  viewHeight: number;
+  color?: string;
+}
+
+/**
+ * Draws labeled detection boxes over an image shown with "cover" resizing,
+ * as the camera preview is.
+ */
+const DetectionOverlay: React.FC<DetectionOverlayProps> = ({
+  detections,
+  imageWidth,
+  imageHeight,
+  viewWidth,
+  viewHeight,
+  color = "#a5bbde",
+}) => {
+  if (!imageWidth || !imageHeight || !viewWidth || !viewHeight) {
+    return null;
+  }
+
+  // "cover" scales the image to fill the view and crops the overflow equally.
+  const scale = Math.max(viewWidth / imageWidth, viewHeight / imageHeight);
+  const offsetX = (viewWidth - imageWidth * scale) / 2;
+  const offsetY = (viewHeight - imageHeight * scale) / 2;
+
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents="none">
+      <Svg width={viewWidth} height={viewHeight}>
+        {detections.map(({ box, label, score }, index) => {
+          const x = box.x1 * scale + offsetX;
+          const y = box.y1 * scale + offsetY;
+          const width = (box.x2 - box.x1) * scale;
+          const height = (box.y2 - box.y1) * scale;
+
+          return (
+            <React.Fragment key={`${label}-${index}`}>
+              <Rect
+                x={x}
+                y={y}
+                width={width}
+                height={height}
+                stroke={color}
+                strokeWidth={2}
+                rx={6}
+                fill="none"
+              />
+              <SvgText
+                x={x + 4}
+                y={Math.max(y - 6, 14)}
+                fill={color}
+                fontSize={14}
+                fontWeight="bold"
+              >
+                {`${label} ${Math.round(score * 100)}%`}
+              </SvgText>
+            </React.Fragment>
+          );
+        })}
+      </Svg>
+    </View>
+  );
+};
+
+export default DetectionOverlay;
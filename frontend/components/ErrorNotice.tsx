@@ -0,0 +1,37 @@
+import React from "react";
+import { View, Text, TouchableOpacity } from "react-native";
+import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
+import { describeError, ErrorContext } from "@/lib/errorMessages";
+
+/** The props expected by the ErrorNotice component. */
+interface ErrorNoticeProps {
+  error: unknown;
+  context?: ErrorContext;
+  onRetry?: () => void;
+  containerStyles?: string;
+}
+
+/** Explains a failed load in plain words, with an optional retry. */
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({
+  error,
+  context = "feed",
+  onRetry,
+  containerStyles = "",
+}) => {
+  const { title, message } = describeError(error, context);
+
+  return (
+    <View className={`items-center px-4 ${containerStyles}`}>
+      <FontAwesome5 name="exclamation-circle" size={28} color="#a5bbde" />
+      <Text className="text-lg font-psemibold text-white mt-3 text-center">{title}</Text>
+      <Text className="font-pregular text-sm text-gray-100 text-center mt-1">{message}</Text>
+      {onRetry && (
+        <TouchableOpacity onPress={onRetry} className="mt-3 px-4 py-2 rounded-full border border-secondary">
+          <Text className="text-secondary font-pmedium text-sm">Try again</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+export default ErrorNotice;
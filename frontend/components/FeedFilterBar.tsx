@@ -0,0 +1,222 @@
+import React, { useState } from "react";
+import { View, Text, ScrollView, TouchableOpacity, Modal, Pressable } from "react-native";
+import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
+import {
+  DATE_RANGE_OPTIONS,
+  DateRange,
+  FeedFilters,
+  FeedSort,
+  SORT_OPTIONS,
+  countActiveFilters,
+} from "@/lib/feedQuery";
+import { DEFAULT_VALUATION_RULES, listCategories } from "@/lib/valuation";
+
+interface Option {
+  value: string;
+  label: string;
+}
+
+const RARITY_OPTIONS: Option[] = DEFAULT_VALUATION_RULES.tiers.map(({ name }) => ({
+  value: name,
+  label: name,
+}));
+
+const CATEGORY_OPTIONS: Option[] = listCategories().map((category) => ({
+  value: category,
+  label: category,
+}));
+
+type Sheet = "sort" | "rarity" | "category" | "date";
+
+interface ChipProps {
+  label: string;
+  isActive?: boolean;
+  icon?: string;
+  onPress: () => void;
+}
+
+/** A pill-shaped toggle in the filter bar. */
+const Chip: React.FC<ChipProps> = ({ label, isActive, icon, onPress }) => (
+  <TouchableOpacity
+    onPress={onPress}
+    className={`flex-row items-center px-3 py-1.5 mr-2 rounded-full border ${
+      isActive ? "border-secondary bg-secondary/20" : "border-black-200 bg-black-100"
+    }`}
+  >
+    {icon && <FontAwesome5 name={icon} size={12} color="#a5bbde" style={{ marginRight: 6 }} />}
+    <Text className="text-white font-pregular text-sm">{label}</Text>
+  </TouchableOpacity>
+);
+
+interface OptionSheetProps {
+  title: string;
+  options: Option[];
+  selected: string[];
+  multiple?: boolean;
+  onSelect: (selected: string[]) => void;
+  onClose: () => void;
+}
+
+/** Bottom sheet listing the choices for one chip. */
+const OptionSheet: React.FC<OptionSheetProps> = ({
+  title,
+  options,
+  selected,
+  multiple,
+  onSelect,
+  onClose,
+}) => {
+  const toggle = (value: string) => {
+    if (!multiple) {
+      onSelect(selected.includes(value) ? [] : [value]);
+      return onClose();
+    }
+    onSelect(
+      selected.includes(value)
+        ? selected.filter((item) => item !== value)
+        : [...selected, value]
+    );
+  };
+
+  return (
+    <Modal transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable className="flex-1 bg-black/50" onPress={onClose} />
+      <View className="bg-black-100 rounded-t-3xl px-4 pt-5 pb-10 max-h-[60%]">
+        <View className="flex-row justify-between items-center mb-3">
+          <Text className="text-white font-psemibold text-lg">{title}</Text>
+          {multiple && selected.length > 0 && (
+            <TouchableOpacity onPress={() => onSelect([])}>
+              <Text className="text-secondary font-pmedium text-sm">Clear</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        <ScrollView>
+          {options.map(({ value, label }) => (
+            <TouchableOpacity
+              key={value}
+              onPress={() => toggle(value)}
+              className="flex-row justify-between items-center py-3 border-b border-black-200"
+            >
+              <Text className="text-gray-100 font-pregular text-base">{label}</Text>
+              {selected.includes(value) && (
+                <FontAwesome5 name="check" size={14} color="#a5bbde" />
+              )}
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+interface FeedFilterBarProps {
+  filters: FeedFilters;
+  sort: FeedSort;
+  onChangeFilters: (filters: FeedFilters) => void;
+  onChangeSort: (sort: FeedSort) => void;
+  /** Enables the "Mine" chip, which filters by this user document. */
+  currentUserId?: string;
+}
+
+/** Horizontal row of sort and filter chips for the feed. */
+const FeedFilterBar: React.FC<FeedFilterBarProps> = ({
+  filters,
+  sort,
+  onChangeFilters,
+  onChangeSort,
+  currentUserId,
+}) => {
+  const [sheet, setSheet] = useState<Sheet | null>(null);
+  const { rarities = [], categories = [], dateRange, appraiserId } = filters;
+
+  const summarize = (label: string, selected: string[]) =>
+    selected.length === 0
+      ? label
+      : selected.length === 1
+        ? selected[0]
+        : `${label} (${selected.length})`;
+
+  const dateLabel = DATE_RANGE_OPTIONS.find((option) => option.value === dateRange)?.label;
+  const sortLabel = SORT_OPTIONS.find((option) => option.value === sort)?.label;
+
+  return (
+    <View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} className="px-4 py-3">
+        <Chip icon="sort-amount-down" label={sortLabel ?? "Sort"} onPress={() => setSheet("sort")} />
+        <Chip
+          label={summarize("Rarity", rarities)}
+          isActive={rarities.length > 0}
+          onPress={() => setSheet("rarity")}
+        />
+        <Chip
+          label={summarize("Category", categories)}
+          isActive={categories.length > 0}
+          onPress={() => setSheet("category")}
+        />
+        <Chip
+          label={dateLabel ?? "Any time"}
+          isActive={!!dateRange}
+          onPress={() => setSheet("date")}
+        />
+        {currentUserId && (
+          <Chip
+            label="Mine"
+            isActive={appraiserId === currentUserId}
+            onPress={() =>
+              onChangeFilters({
+                ...filters,
+                appraiserId: appraiserId === currentUserId ? undefined : currentUserId,
+              })
+            }
+          />
+        )}
+        {countActiveFilters(filters) > 0 && (
+          <Chip icon="times" label="Clear" onPress={() => onChangeFilters({})} />
+        )}
+      </ScrollView>
+
+      {sheet === "sort" && (
+        <OptionSheet
+          title="Sort by"
+          options={SORT_OPTIONS}
+          selected={[sort]}
+          onSelect={([value]) => onChangeSort((value as FeedSort) ?? "newest")}
+          onClose={() => setSheet(null)}
+        />
+      )}
+      {sheet === "rarity" && (
+        <OptionSheet
+          title="Rarity"
+          options={RARITY_OPTIONS}
+          selected={rarities}
+          multiple
+          onSelect={(selected) => onChangeFilters({ ...filters, rarities: selected })}
+          onClose={() => setSheet(null)}
+        />
+      )}
+      {sheet === "category" && (
+        <OptionSheet
+          title="Category"
+          options={CATEGORY_OPTIONS}
+          selected={categories}
+          multiple
+          onSelect={(selected) => onChangeFilters({ ...filters, categories: selected })}
+          onClose={() => setSheet(null)}
+        />
+      )}
+      {sheet === "date" && (
+        <OptionSheet
+          title="Appraised"
+          options={DATE_RANGE_OPTIONS}
+          selected={dateRange ? [dateRange] : []}
+          onSelect={([value]) =>
+            onChangeFilters({ ...filters, dateRange: value as DateRange | undefined })
+          }
+          onClose={() => setSheet(null)}
+        />
+      )}
+    </View>
+  );
+};
+
+export default FeedFilterBar;
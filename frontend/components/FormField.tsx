@@ -8,6 +8,10 @@ interface FormFieldProps extends TextInputProps {
   placeHolder: string;
   handleChangeText: (text: string) => void;
   otherStyles?: string;
+  /** Shown under the input, which is outlined in red while it's set. */
+  error?: string | null;
+  /** Shown under the input when there's no error, e.g. "Checking...". */
+  hint?: string | null;
 }
 
 const FormField: React.FC<FormFieldProps> = ({
@@ -16,6 +20,10 @@ const FormField: React.FC<FormFieldProps> = ({
   placeHolder,
   handleChangeText,
   otherStyles,
+  error,
+  hint,
+  onFocus,
+  onBlur,
   ...props
 }) => {
   const [showPassword, setShowPassword] = useState(false);
@@ -30,7 +38,7 @@ const FormField: React.FC<FormFieldProps> = ({
       {/* Outer View border toggles color on focus */}
       <View
         className={`border-2  ${
-          isFocused ? 'border-secondary' : 'border-black-200'
+          error ? 'border-red-500' : isFocused ? 'border-secondary' : 'border-black-200'
         } w-full h-16 px-4 bg-black-100 rounded-2xl items-center flex-row`}
       >
         <TextInput
@@ -42,8 +50,14 @@ const FormField: React.FC<FormFieldProps> = ({
           placeholder={placeHolder}
           placeholderTextColor="#7b7b8b"
           onChangeText={handleChangeText}
-          onFocus={() => setIsFocused(true)}
-          onBlur={() => setIsFocused(false)}
+          onFocus={(event) => {
+            setIsFocused(true);
+            onFocus?.(event);
+          }}
+          onBlur={(event) => {
+            setIsFocused(false);
+            onBlur?.(event);
+          }}
           secureTextEntry={title === 'Password' && !showPassword}
           {...props}
         />
@@ -58,6 +72,12 @@ const FormField: React.FC<FormFieldProps> = ({
           </TouchableOpacity>
         )}
       </View>
+
+      {error ? (
+        <Text className="text-sm text-red-500 font-pregular">{error}</Text>
+      ) : hint ? (
+        <Text className="text-sm text-gray-100 font-pregular">{hint}</Text>
+      ) : null}
     </View>
   );
 };
@@ -1,25 +1,15 @@
 import React from "react";
-import { View, Text, Image, TouchableOpacity } from "react-native";
+import { View, Text, Image, TouchableOpacity, ActivityIndicator } from "react-native";
 import FontAwesome5 from "@expo/vector-icons/FontAwesome5";
-
-/** Represents the user (appraiser) who owns or is associated with the image. */
-interface Appraiser {
-  username: string;
-  avatar: string;
-}
-
-/** Represents the data needed to display the card (image, description, etc.). */
-interface ImageData {
-  objectImage: string;
-  description: string;
-  objectName: string;
-  rarity: string;
-  appraiser: Appraiser;
-}
+import { Appraisal } from "@/lib/models";
+import { OutboxStatus } from "@/lib/outbox";
 
 /** The props expected by the ImageCard component. */
 interface ImageCardProps {
-  image: ImageData;
+  image: Appraisal;
+  /** Set while the appraisal is still in the outbox, not yet saved. */
+  syncStatus?: OutboxStatus;
+  onPressSyncStatus?: () => void;
 }
 
 /**
@@ -34,6 +24,8 @@ const ImageCard: React.FC<ImageCardProps> = ({
     rarity,
     appraiser: { username, avatar },
   },
+  syncStatus,
+  onPressSyncStatus,
 }) => {
   return (
     <View className="flex-col items-center px-4 mb-14">
@@ -76,6 +68,24 @@ const ImageCard: React.FC<ImageCardProps> = ({
           className="w-full h-full rounded-xl"
           resizeMode="cover"
         />
+        {syncStatus && (
+          <TouchableOpacity
+            onPress={onPressSyncStatus}
+            disabled={!onPressSyncStatus}
+            className={`absolute top-3 left-3 flex-row items-center px-3 py-1 rounded-full ${
+              syncStatus === "failed" ? "bg-red-500" : "bg-black-200"
+            }`}
+          >
+            {syncStatus === "pending" ? (
+              <ActivityIndicator size="small" color="#a5bbde" />
+            ) : (
+              <FontAwesome5 name="exclamation-circle" size={12} color="#fff" />
+            )}
+            <Text className="text-white font-pmedium text-xs ml-2">
+              {syncStatus === "failed" ? "Not saved" : "Saving..."}
+            </Text>
+          </TouchableOpacity>
+        )}
       </TouchableOpacity>
     </View>
   );
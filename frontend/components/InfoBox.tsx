@@ -0,0 +1,29 @@
+import React from "react";
+import { View, Text } from "react-native";
+
+/** The props expected by the InfoBox component. */
+interface InfoBoxProps {
+  title: string;
+  subtitle?: string;
+  containerStyles?: string;
+  titleStyles?: string;
+}
+
+/** A bold figure with a caption underneath, e.g. a profile stat. */
+const InfoBox: React.FC<InfoBoxProps> = ({
+  title,
+  subtitle,
+  containerStyles = "",
+  titleStyles = "",
+}) => {
+  return (
+    <View className={containerStyles}>
+      <Text className={`text-white text-center font-psemibold ${titleStyles}`}>{title}</Text>
+      {subtitle && (
+        <Text className="text-sm text-gray-100 text-center font-pregular">{subtitle}</Text>
+      )}
+    </View>
+  );
+};
+
+export default InfoBox;
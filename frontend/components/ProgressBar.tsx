@@ -0,0 +1,22 @@
+import React from "react";
+import { View } from "react-native";
+
+/** The props expected by the ProgressBar component. */
+interface ProgressBarProps {
+  /** Fraction complete, from 0 to 1. */
+  progress: number;
+  containerStyles?: string;
+}
+
+/** A thin horizontal bar that fills up as `progress` goes from 0 to 1. */
+const ProgressBar: React.FC<ProgressBarProps> = ({ progress, containerStyles = "" }) => {
+  const percent = Math.round(Math.min(Math.max(progress, 0), 1) * 100);
+
+  return (
+    <View className={`w-full h-1.5 bg-black-200 rounded-full overflow-hidden ${containerStyles}`}>
+      <View className="h-full bg-secondary rounded-full" style={{ width: `${percent}%` }} />
+    </View>
+  );
+};
+
+export default ProgressBar;
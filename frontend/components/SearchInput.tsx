@@ -1,30 +1,54 @@
-import React, { useState } from 'react';
-import { View, Text, TextInput, TextInputProps, TouchableOpacity, Platform } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, TextInput, TextInputProps, TouchableOpacity, Platform, Alert } from 'react-native';
 import FontAwesome5 from '@expo/vector-icons/FontAwesome5';
+import { router, usePathname } from 'expo-router';
+import useDebounce from '@/lib/useDebounce';
+import { addRecentSearch } from '@/lib/recentSearches';
 
-
-interface FormFieldProps extends TextInputProps {
-  title: string;
-  value: string;
-  placeHolder: string;
-  handleChangeText: (text: string) => void;
-  otherStyles?: string;
+interface SearchInputProps extends TextInputProps {
+  /** The query currently shown on the search route, if any. */
+  initialQuery?: string;
 }
 
-const SearchInput: React.FC<FormFieldProps> = ({
-  title,
-  value,
-  placeHolder,
-  handleChangeText,
-  otherStyles,
-  ...props
-}) => {
-  const [showPassword, setShowPassword] = useState(false);
+/**
+ * Search box that opens `/search/[query]` on submit. On the search route
+ * itself, typing updates the query in place once the user pauses. Only
+ * submitted queries are kept as recent searches, not what was typed on the
+ * way there.
+ */
+const SearchInput: React.FC<SearchInputProps> = ({ initialQuery, ...props }) => {
+  const pathname = usePathname();
+  const [query, setQuery] = useState(initialQuery ?? '');
   const [isFocused, setIsFocused] = useState(false);
+  const debouncedQuery = useDebounce(query.trim(), 500);
+  const onSearchRoute = pathname.startsWith('/search');
 
-  return (
+  // Follow the route when it changes from outside, e.g. a recent search.
+  useEffect(() => {
+    if (initialQuery !== undefined) setQuery(initialQuery);
+  }, [initialQuery]);
+
+  useEffect(() => {
+    if (onSearchRoute && debouncedQuery && debouncedQuery !== initialQuery) {
+      router.setParams({ query: debouncedQuery });
+    }
+  }, [debouncedQuery]);
 
-     
+  const submit = async () => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      return Alert.alert('Missing query', 'Type something to search for');
+    }
+    // Saved first, so the search route reads it back when the query changes.
+    await addRecentSearch(trimmed);
+    if (onSearchRoute) {
+      router.setParams({ query: trimmed });
+    } else {
+      router.push({ pathname: '/search/[query]', params: { query: trimmed } });
+    }
+  };
+
+  return (
       <View
         className={`border-2  ${
           isFocused ? 'border-secondary' : 'border-black-200'
@@ -35,22 +59,22 @@ const SearchInput: React.FC<FormFieldProps> = ({
           // Conditionally apply web-only style and cast as any to satisfy TypeScript
           style={Platform.OS === 'web' ? ({ outlineWidth: 0 } as any) : {}}
           underlineColorAndroid="transparent"
-          value={value}
+          value={query}
           placeholder={"Search for appraised items"}
           placeholderTextColor="#7b7b8b"
-          onChangeText={handleChangeText}
+          onChangeText={setQuery}
+          onSubmitEditing={submit}
+          returnKeyType="search"
           onFocus={() => setIsFocused(true)}
           onBlur={() => setIsFocused(false)}
-          secureTextEntry={title === 'Password' && !showPassword}
           {...props}
         />
 
-        <TouchableOpacity>
+        <TouchableOpacity onPress={submit}>
         <FontAwesome5 name="search" size={22} color="#a5bbde" />
         </TouchableOpacity>
       </View>
-  
   );
 };
 
-export default SearchInput;
\ No newline at end of file
+export default SearchInput;
@@ -0,0 +1,32 @@
+import { createContext, useContext, useState, ReactNode } from "react";
+import { FeedFilters, FeedSort } from "@/lib/feedQuery";
+
+interface FeedFiltersContextType {
+  filters: FeedFilters;
+  setFilters: (filters: FeedFilters) => void;
+  sort: FeedSort;
+  setSort: (sort: FeedSort) => void;
+}
+
+const FeedFiltersContext = createContext<FeedFiltersContextType>({
+  filters: {},
+  setFilters: () => {},
+  sort: "newest",
+  setSort: () => {},
+});
+
+export const useFeedFilters = () => useContext(FeedFiltersContext);
+
+/** Holds the home feed's filters above the navigator so they outlive the screen. */
+const FeedFiltersProvider = ({ children }: { children: ReactNode }) => {
+  const [filters, setFilters] = useState<FeedFilters>({});
+  const [sort, setSort] = useState<FeedSort>("newest");
+
+  return (
+    <FeedFiltersContext.Provider value={{ filters, setFilters, sort, setSort }}>
+      {children}
+    </FeedFiltersContext.Provider>
+  );
+};
+
+export default FeedFiltersProvider;
@@ -1,51 +1,148 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from "react";
-import { getCurrentUser } from "@/lib/appwrite";
+import { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from "react";
+import { Alert, AppState } from "react-native";
+import { router } from "expo-router";
+import { getCurrentUser } from "@/lib/dataSource";
+import { onUnauthorized } from "@/lib/sessionEvents";
+import { reportHandledError } from "@/lib/errorReports";
+import { NetworkError, toAppError } from "@/lib/errors";
+import { clearQueryCache } from "@/lib/queryCache";
+import { startOutbox, stopOutbox } from "@/lib/outbox";
+import { clearRecentSearches } from "@/lib/recentSearches";
+import { parseUser, User } from "@/lib/models";
+import {
+  PERSISTENCE_TTL,
+  clearPersisted,
+  hydratePersistence,
+  persist,
+  readPersisted,
+} from "@/lib/persistence";
+
+const CURRENT_USER_KEY = "currentUser";
+
+const readCachedUser = () => {
+  const cached = readPersisted(CURRENT_USER_KEY);
+  if (!cached) return null;
+  try {
+    return parseUser(cached);
+  } catch (error) {
+    reportHandledError(error);
+    return null;
+  }
+};
+
+// Being offline is expected here: the cached user stays signed in and the
+// next foreground check tries again.
+const reportUnlessOffline = (error: unknown) => {
+  if (!(toAppError(error) instanceof NetworkError)) reportHandledError(error);
+};
 
-// 1. Define the type for your "user" from Appwrite
-type AppwriteUser = any;
 interface GlobalContextType {
   isLoggedIn: boolean;
   setIsLogged : (value: boolean) => void;
-  user: AppwriteUser | null;
-  setUser: (user: AppwriteUser | null) => void;
+  user: User | null;
+  setUser: (user: User | null) => void;
   isLoading: boolean;
+  /** Forgets the signed-in user and returns to sign-in, e.g. after signing out. */
+  endSession: () => void;
 }
 
-// 2. Create the context with that type
+// Create the context with that type
 const GlobalContext = createContext<GlobalContextType>({
   isLoggedIn: false,
   setIsLogged : () => {},
   user: null,
   setUser: () => {},
   isLoading: true,
+  endSession: () => {},
 });
 
 export const useGlobalContext = () => useContext(GlobalContext);
 
 const GlobalProvider = ({ children }: { children: ReactNode }) => {
   const [isLoggedIn, setIsLogged ] = useState(false);
-  const [user, setUser] = useState<AppwriteUser | null>(null);
+  const [user, setUser] = useState<User | null>(null);
   const [isLoading, setisLoading] = useState(true);
+  // Read from listeners registered once, which would otherwise see stale state.
+  const isLoggedInRef = useRef(isLoggedIn);
+  isLoggedInRef.current = isLoggedIn;
 
+  const endSession = useCallback(() => {
+    // Nothing cached for this user should show up for the next one.
+    clearQueryCache();
+    clearPersisted();
+    clearRecentSearches();
+    setUser(null);
+    setIsLogged(false);
+    router.replace("/sign-in");
+  }, []);
+
+  // The session expired or was revoked from another device while signed in.
+  // Being signed out when nobody was signed in is expected and ignored.
+  const handleExpired = useCallback(() => {
+    if (!isLoggedInRef.current) return;
+    isLoggedInRef.current = false;
+    endSession();
+    Alert.alert("Session expired", "Please sign in again");
+  }, [endSession]);
+
+  // Show the last signed-in user straight away, then check with the server.
+  // If it can't be reached (e.g. offline), stay signed in as the cached user;
+  // the foreground check below tries again later. A cached user whose session
+  // is gone is signed out like any other expiry.
   useEffect(() => {
-    getCurrentUser()
+    hydratePersistence()
+      .then(() => {
+        const cached = readCachedUser();
+        if (cached) {
+          isLoggedInRef.current = true;
+          setUser(cached);
+          setIsLogged(true);
+          setisLoading(false);
+        }
+        return getCurrentUser();
+      })
       .then((res) => {
         if (res) {
-            setIsLogged (true);
+          setIsLogged(true);
           setUser(res);
+        } else if (isLoggedInRef.current) {
+          handleExpired();
         } else {
-            setIsLogged (false);
-          setUser(null);
+          clearPersisted();
         }
       })
-      .catch((error) => {
-        console.error(error);
-      })
+      .catch(reportUnlessOffline)
       .finally(() => {
         setisLoading(false);
       });
   }, []);
 
+  useEffect(() => {
+    if (user) persist(CURRENT_USER_KEY, user, PERSISTENCE_TTL.currentUser);
+  }, [user]);
+
+  // Unsaved appraisals are only sent while their appraiser is signed in.
+  const userId = user?.$id;
+  useEffect(() => {
+    if (!userId) return;
+    startOutbox(userId);
+    return stopOutbox;
+  }, [userId]);
+
+  useEffect(() => onUnauthorized(handleExpired), [handleExpired]);
+
+  // Re-validate when the app comes back to the foreground, since the session
+  // may have expired in the background. Network errors leave the user as is.
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state !== "active" || !isLoggedInRef.current) return;
+      getCurrentUser()
+        .then((res) => (res ? setUser(res) : handleExpired()))
+        .catch(reportUnlessOffline);
+    });
+    return () => subscription.remove();
+  }, [handleExpired]);
+
   return (
     <GlobalContext.Provider
       value={{
@@ -54,6 +151,7 @@ const GlobalProvider = ({ children }: { children: ReactNode }) => {
         user,
         setUser,
         isLoading,
+        endSession,
       }}
     >
       {children}
@@ -0,0 +1,152 @@
+import type { Tensor3D } from "@tensorflow/tfjs";
+import { classifyDetections, getClassifier, getDetector } from "@/lib/detection";
+import { loadImageTensor } from "@/lib/detection/image";
+import { Valuation, valuate } from "@/lib/valuation";
+import { Detection } from "@/utils/detection";
+
+/** What an appraisal starts from: a captured photo and, optionally, its detections. */
+export interface AppraisalInput {
+  imageUri: string;
+  /** Detections already found at capture time, skipping a second detector pass. */
+  detections?: Detection[];
+}
+
+/** The outcome of a finished appraisal. */
+export interface AppraisalResult {
+  imageUri: string;
+  detections: Detection[];
+  /** The most confident detection, or null when nothing was found. */
+  item: Detection | null;
+  /** Rarity and value estimate for `item`, or null when nothing was found. */
+  valuation: Valuation | null;
+  /**
+   * Why the classifier failed, if it did. The detections then have no
+   * labels and the valuation rests on the detected class alone.
+   */
+  classificationError: Error | null;
+}
+
+/** Thrown out of {@link runAppraisal} when its signal is aborted. */
+export class AppraisalCancelledError extends Error {
+  constructor() {
+    super("Appraisal cancelled");
+    this.name = "AppraisalCancelledError";
+  }
+}
+
+export interface AppraisalProgress {
+  /** Fraction of the work done, from 0 to 1. */
+  progress: number;
+  /** Label of the step currently running. */
+  stage: string;
+}
+
+// Mutable state passed from one step to the next.
+interface AppraisalDraft {
+  input: AppraisalInput;
+  image: Tensor3D | null;
+  /** Sorted by descending score. */
+  detections: Detection[];
+  valuation: Valuation | null;
+  classificationError: Error | null;
+}
+
+interface AppraisalStep {
+  label: string;
+  run: (draft: AppraisalDraft) => Promise<void>;
+}
+
+// Decodes the photo the first time a step needs pixels.
+const ensureImage = async (draft: AppraisalDraft): Promise<Tensor3D> => {
+  if (!draft.image) {
+    draft.image = await loadImageTensor(draft.input.imageUri);
+  }
+  return draft.image;
+};
+
+const steps: AppraisalStep[] = [
+  {
+    label: "Detecting objects",
+    run: async (draft) => {
+      let detections = draft.input.detections;
+      if (!detections) {
+        const detector = await getDetector();
+        detections = await detector.detect(await ensureImage(draft));
+      }
+      draft.detections = [...detections].sort((a, b) => b.score - a.score);
+    },
+  },
+  {
+    label: "Classifying item",
+    run: async (draft) => {
+      if (draft.detections.length === 0) return;
+      try {
+        const classifier = await getClassifier();
+        draft.detections = await classifyDetections(
+          classifier,
+          await ensureImage(draft),
+          draft.detections
+        );
+      } catch (error) {
+        // Classification only refines the result; without it the valuation
+        // falls back to the detected class.
+        draft.classificationError = error instanceof Error ? error : new Error(String(error));
+      }
+    },
+  },
+  {
+    label: "Estimating value",
+    run: async (draft) => {
+      const item = draft.detections[0];
+      draft.valuation = item ? valuate(item.label, item.labels) : null;
+    },
+  },
+];
+
+const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new AppraisalCancelledError();
+};
+
+/**
+ * Runs every appraisal step on a captured photo.
+ *
+ * Cancellation is cooperative: the signal is checked between steps, so a
+ * step that is already running finishes before the cancellation is seen.
+ *
+ * @throws {AppraisalCancelledError} If `signal` is aborted.
+ */
+export async function runAppraisal(
+  input: AppraisalInput,
+  {
+    signal,
+    onProgress,
+  }: { signal?: AbortSignal; onProgress?: (progress: AppraisalProgress) => void } = {}
+): Promise<AppraisalResult> {
+  const draft: AppraisalDraft = {
+    input,
+    image: null,
+    detections: [],
+    valuation: null,
+    classificationError: null,
+  };
+
+  try {
+    for (let i = 0; i < steps.length; i++) {
+      throwIfCancelled(signal);
+      onProgress?.({ progress: i / steps.length, stage: steps[i].label });
+      await steps[i].run(draft);
+    }
+    throwIfCancelled(signal);
+    onProgress?.({ progress: 1, stage: "Done" });
+
+    return {
+      imageUri: input.imageUri,
+      detections: draft.detections,
+      item: draft.detections[0] ?? null,
+      valuation: draft.valuation,
+      classificationError: draft.classificationError,
+    };
+  } finally {
+    draft.image?.dispose();
+  }
+}
@@ -0,0 +1,32 @@
+import type { Appraisal } from "@/lib/models";
+import { DEFAULT_VALUATION_RULES, ValueRange } from "@/lib/valuation";
+
+export interface AppraisalStats {
+  count: number;
+  /** Appraisal count per rarity tier, rarest first; tiers with none are included. */
+  rarities: { rarity: string; rank: number; count: number }[];
+  /** Sum of every appraisal's estimated range. */
+  totalValue: ValueRange;
+}
+
+/** Summarizes a collection of appraisals for the profile screen. */
+export function summarizeAppraisals(
+  appraisals: Appraisal[],
+  rules = DEFAULT_VALUATION_RULES
+): AppraisalStats {
+  const counts = new Map<string, number>();
+  const totalValue = { min: 0, max: 0, currency: rules.currency };
+
+  for (const appraisal of appraisals) {
+    counts.set(appraisal.rarity, (counts.get(appraisal.rarity) ?? 0) + 1);
+    // Everything is priced in the rules' currency, so the ranges add up.
+    totalValue.min += appraisal.estimatedValueMin;
+    totalValue.max += appraisal.estimatedValueMax;
+  }
+
+  const rarities = rules.tiers
+    .map(({ name, rank }) => ({ rarity: name, rank, count: counts.get(name) ?? 0 }))
+    .sort((a, b) => b.rank - a.rank);
+
+  return { count: appraisals.length, rarities, totalValue };
+}
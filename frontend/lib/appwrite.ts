@@ -1,4 +1,56 @@
-import { Client, Account, ID, Avatars, Databases, Query } from "react-native-appwrite";
+import {
+  Client,
+  Account,
+  ID,
+  Databases,
+  Models,
+  Query,
+  Storage,
+} from "react-native-appwrite";
+import RNFS from "react-native-fs";
+import { Valuation, toAppraisalDocument } from "@/lib/valuation";
+import { notifyUnauthorized } from "@/lib/sessionEvents";
+import { reportHandledError } from "@/lib/errorReports";
+import {
+  AppError,
+  CancelledError,
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+  UserAlreadyExistsError,
+  ValidationError,
+  isPermanentError,
+  toAppError,
+} from "@/lib/errors";
+import {
+  normalizeEmail,
+  normalizeSignUp,
+  normalizeUsername,
+  usernameTakenError,
+  validatePassword,
+  validateSignUp,
+} from "@/lib/validation";
+import { summarizeAppraisals } from "@/lib/appraisalStats";
+import {
+  Appraisal,
+  InvalidDocumentError,
+  parseAppraisal,
+  parseEach,
+  parseUser,
+} from "@/lib/models";
+import { FeedFilters, FeedQuery, FeedSort, dateRangeStart } from "@/lib/feedQuery";
+import {
+  AppraisalEvent,
+  CreateAppraisalOptions,
+  DataSource,
+  DEFAULT_PAGE_SIZE,
+  ImageUpload,
+  Page,
+  PageRequest,
+  RESET_PASSWORD_URL,
+  SubscribeOptions,
+  VERIFY_EMAIL_URL,
+} from "@/lib/dataSource";
 export const config = {
   endpoint: "https://cloud.appwrite.io/v1", // Your API Endpoint
   platform: "com.elicky.appraisal", // Your platform
@@ -7,6 +59,8 @@ export const config = {
   userCollectionId: "67b8fbc7000db66d2c4a", // Your user collection ID
   appraisedCollectionId: "67b8fc0f0022d73cecb3", // Your appraised collection ID
   storageId: "67b8fdc7001e11054f57",
+  // The appraisal API (see backend/), which creates accounts and user documents.
+  apiEndpoint: process.env.EXPO_PUBLIC_API_URL ?? "http://localhost:3000",
 };
 
 const client = new Client();
@@ -15,80 +69,475 @@ client
   .setProject(config.projectId)
   .setPlatform(config.platform);
 
-const avatars = new Avatars(client);
 const databases = new Databases(client);
 const account = new Account(client);
+const storage = new Storage(client);
 
+// Converts a failure into an AppError for the caller to throw, reporting a
+// 401 that means the session ended (see toAppError). Bad credentials and
+// permission denials map to their own errors, so neither signs the user out.
+const reportError = (error: unknown): AppError => {
+  const appError = toAppError(error);
+  if (appError instanceof UnauthorizedError) notifyUnauthorized();
+  return appError;
+};
+
+// Calls the appraisal API. Its `{ error: { code, message, details } }`
+// answers become the matching AppErrors.
+const callApi = async (path: string, { body, jwt }: { body?: unknown; jwt?: string } = {}) => {
+  const response = await fetch(`${config.apiEndpoint}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(jwt && { Authorization: `Bearer ${jwt}` }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (response.ok) return;
+
+  const { error } = await response.json().catch(() => ({ error: undefined }));
+  const message: string = error?.message ?? `Request failed with status ${response.status}`;
+  const issues = Array.isArray(error?.details) ? error.details : [];
+  switch (error?.code) {
+    case "validation_failed":
+      throw new ValidationError(issues[0]?.message ?? message, issues);
+    case "username_taken":
+      throw usernameTakenError();
+    case "email_taken":
+      throw new UserAlreadyExistsError();
+  }
+  if (response.status === 401) throw new UnauthorizedError();
+  if (response.status === 404) throw new NotFoundError(message);
+  throw new AppError(message);
+};
+
+// Matches case-insensitively: `usernameKey` is the lower-cased username,
+// kept unique by an index (see backend/README.md).
+export const isUsernameAvailable = async (username: string) => {
+  try {
+    const { total } = await databases.listDocuments(config.databaseId, config.userCollectionId, [
+      Query.equal("usernameKey", normalizeUsername(username)),
+      Query.limit(1),
+    ]);
+    return total === 0;
+  } catch (error) {
+    throw toAppError(error);
+  }
+};
+
+// The API creates the account and its user document, or neither, and is
+// the only one allowed to write user documents. The form is checked here
+// too so mistakes show without a round trip.
 export const createUser = async (
   email: string,
   password: string,
   username: string
 ) => {
+  const form = normalizeSignUp({ email, password, username });
+  const issues = validateSignUp(form);
+  if (issues.length) throw new ValidationError(issues[0].message, issues);
+
   try {
-    const newAccount = await account.create(
-      ID.unique(),
-      email,
-      password,
-      username
-    );
-    if (!newAccount) throw Error;
+    await callApi("/v1/signup", { body: form });
+    await signIn(form.email, form.password);
+    const user = await getCurrentUser();
+    if (!user) throw new UnauthorizedError();
+    return user;
+  } catch (error) {
+    throw toAppError(error);
+  }
+};
 
-    const avatarUrl = avatars.getInitials(username);
+export const signIn = async (email: string, password: string) => {
+  try {
+    return await account.createEmailPasswordSession(normalizeEmail(email), password);
+  } catch (error) {
+    throw toAppError(error);
+  }
+};
 
-    await signIn(email, password);
+export const signOut = async () => {
+  try {
+    await account.deleteSession("current");
+  } catch (error) {
+    throw reportError(error);
+  }
+};
 
-    const newUser = await databases.createDocument(
-      config.databaseId,
-      config.userCollectionId,
-      ID.unique(),
-      {
-        accountId: newAccount.$id,
-        email,
-        username,
-        avatar: avatarUrl,
-      }
-    );
-    return newUser;
+// Deleting every session also ends this one, so the caller should treat it
+// like a sign-out.
+export const signOutEverywhere = async () => {
+  try {
+    await account.deleteSessions();
+  } catch (error) {
+    throw reportError(error);
+  }
+};
+
+export const listSessions = async () => {
+  try {
+    const { sessions } = await account.listSessions();
+    return sessions;
+  } catch (error) {
+    throw reportError(error);
+  }
+};
+
+export const revokeSession = async (sessionId: string) => {
+  try {
+    await account.deleteSession(sessionId);
+  } catch (error) {
+    throw reportError(error);
+  }
+};
+
+export const requestPasswordRecovery = async (email: string) => {
+  try {
+    await account.createRecovery(normalizeEmail(email), RESET_PASSWORD_URL);
+  } catch (error) {
+    const appError = toAppError(error);
+    // Don't tell whoever is asking that no account uses this email.
+    if (appError instanceof NotFoundError) return;
+    throw appError;
+  }
+};
+
+export const resetPassword = async (userId: string, secret: string, password: string) => {
+  const issue = validatePassword(password);
+  if (issue) throw new ValidationError(issue, [{ field: "password", message: issue }]);
+  try {
+    await account.updateRecovery(userId, secret, password);
+  } catch (error) {
+    throw toAppError(error);
+  }
+};
+
+export const sendVerificationEmail = async () => {
+  try {
+    await account.createVerification(VERIFY_EMAIL_URL);
   } catch (error) {
-    console.log(error);
+    throw reportError(error);
   }
 };
 
-export const signIn = async(email: string, password: string) => {
+export const confirmEmailVerification = async (userId: string, secret: string) => {
   try {
-    const session = await account.createEmailPasswordSession(email, password);
-    return session;
+    await account.updateVerification(userId, secret);
   } catch (error) {
-    console.log(error);
+    throw reportError(error);
   }
-}
+};
 
+// Resolves to null when signed out. That's expected at launch, so it
+// doesn't count as the session ending.
 export const getCurrentUser = async () => {
   try {
     const currentAccount = await account.get();
-    if (!currentAccount) throw Error;
+    const findUser = async () => {
+      const { documents } = await databases.listDocuments(
+        config.databaseId,
+        config.userCollectionId,
+        [Query.equal("accountId", currentAccount.$id)]
+      );
+      // A document from before usernames were keyed counts as incomplete.
+      return documents[0]?.usernameKey ? parseEach(documents, parseUser)[0] : undefined;
+    };
 
-    const currentUser = await databases.listDocuments(
-      config.databaseId,
-      config.userCollectionId,
-      [Query.equal('accountId', currentAccount.$id)]
-    )
+    let user = await findUser();
+    if (!user) {
+      // Only the API writes user documents; it fills in a missing or
+      // incomplete one for the account the JWT belongs to.
+      const { jwt } = await account.createJWT();
+      await callApi("/v1/users/me/profile", { jwt });
+      user = await findUser();
+      if (!user) throw new NotFoundError("User profile not found");
+    }
+    return { ...user, emailVerification: currentAccount.emailVerification };
+  } catch (error) {
+    const appError = toAppError(error);
+    if (appError instanceof UnauthorizedError) return null;
+    throw appError;
+  }
+};
+
+// Query builders for the appraised collection. Each returns a list of
+// queries so they can be concatenated freely.
+export const rarityIn = (rarities: string[] = []) =>
+  rarities.length ? [Query.equal("rarity", rarities)] : [];
 
-    if(!currentUser) throw Error;
+export const categoryIn = (categories: string[] = []) =>
+  categories.length ? [Query.equal("category", categories)] : [];
 
-    return currentUser.documents[0];
+export const createdSince = (since?: string) =>
+  since ? [Query.greaterThanEqual("$createdAt", since)] : [];
+
+export const appraisedBy = (appraiserId?: string) =>
+  appraiserId ? [Query.equal("appraiser", appraiserId)] : [];
+
+// Ties fall back to newest first so cursors stay stable.
+export const orderedBy = (sort: FeedSort = "newest") => {
+  switch (sort) {
+    case "value":
+      return [Query.orderDesc("estimatedValueMax"), Query.orderDesc("$createdAt")];
+    case "rarest":
+      return [Query.orderDesc("rarityRank"), Query.orderDesc("$createdAt")];
+    default:
+      return [Query.orderDesc("$createdAt")];
+  }
+};
+
+export const filteredBy = ({ rarities, categories, dateRange, appraiserId }: FeedFilters = {}) => [
+  ...rarityIn(rarities),
+  ...categoryIn(categories),
+  ...createdSince(dateRange && dateRangeStart(dateRange)),
+  ...appraisedBy(appraiserId),
+];
+
+// Lists appraisals matching `queries` one page at a time.
+const listAppraisals = async (
+  queries: string[],
+  { limit = DEFAULT_PAGE_SIZE, cursor }: PageRequest
+): Promise<Page<Appraisal>> => {
+  const paged = [...queries, Query.limit(limit)];
+  if (cursor) paged.push(Query.cursorAfter(cursor));
+
+  const posts = await databases.listDocuments(
+    config.databaseId,
+    config.appraisedCollectionId,
+    paged
+  );
+  // A short page means there is nothing after it. The cursor comes from the
+  // raw page, so skipping an invalid last document doesn't stall paging.
+  const last = posts.documents[posts.documents.length - 1];
+  return {
+    documents: parseEach(posts.documents, parseAppraisal),
+    nextCursor: posts.documents.length === limit && last ? last.$id : null,
+  };
+};
+
+export const getAllPosts = async (page: PageRequest = {}, { filters, sort }: FeedQuery = {}) => {
+  try {
+    return await listAppraisals([...filteredBy(filters), ...orderedBy(sort)], page);
+  } catch (error) {
+    throw reportError(error);
+  }
+};
+
+export const getUserPosts = async (userId: string, page: PageRequest = {}) => {
+  try {
+    return await listAppraisals([...appraisedBy(userId), ...orderedBy("newest")], page);
+  } catch (error) {
+    throw reportError(error);
+  }
+};
+
+// Walks every page of the user's appraisals, stopping early when `signal`
+// is aborted.
+export const getUserStats = async (
+  userId: string,
+  { signal }: { signal?: AbortSignal } = {}
+) => {
+  try {
+    const appraisals: Appraisal[] = [];
+    let cursor: string | null = null;
+    do {
+      if (signal?.aborted) throw new CancelledError();
+      const page: Page<Appraisal> = await listAppraisals(
+        [...appraisedBy(userId), ...orderedBy("newest")],
+        { limit: 100, cursor }
+      );
+      appraisals.push(...page.documents);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return summarizeAppraisals(appraisals);
   } catch (error) {
-    console.log(error)
+    throw reportError(error);
   }
-}
-export const getAllPosts = async () => {
+};
+
+// Needs a fulltext index on each of objectName and description. A blank
+// query matches nothing rather than being sent as an empty search.
+export const searchPosts = async (
+  query: string,
+  page: PageRequest = {}
+): Promise<Page<Appraisal>> => {
+  const terms = query.trim();
+  if (!terms) return { documents: [], nextCursor: null };
   try {
-    const posts = await databases.listDocuments(
-      config.databaseId,
-      config.appraisedCollectionId
+    return await listAppraisals(
+      [
+        Query.or([Query.search("objectName", terms), Query.search("description", terms)]),
+        ...orderedBy("newest"),
+      ],
+      page
     );
-    return posts.documents;
   } catch (error) {
-    console.log(error);
+    throw reportError(error);
   }
 };
+
+// Uploads a local image to the storage bucket and returns the new file's id.
+// A file already stored under `fileId` counts as uploaded, so retries are safe.
+const uploadImage = async (image: ImageUpload, fileId = ID.unique()) => {
+  const { size } = await RNFS.stat(image.uri.replace(/^file:\/\//, ""));
+  try {
+    const file = await storage.createFile(config.storageId, fileId, {
+      name: image.name ?? `appraisal-${Date.now()}.jpg`,
+      type: image.type ?? "image/jpeg",
+      size,
+      uri: image.uri,
+    });
+    return file.$id;
+  } catch (error) {
+    if (toAppError(error) instanceof ConflictError) return fileId;
+    throw error;
+  }
+};
+
+// Best effort: a file left behind only costs storage, and the save's own
+// error is the one worth reporting.
+const deleteImage = (fileId: string) =>
+  storage.deleteFile(config.storageId, fileId).catch(() => {});
+
+export const createAppraisal = async (
+  image: ImageUpload,
+  valuation: Valuation,
+  appraiserId: string,
+  { idempotencyKey }: CreateAppraisalOptions = {}
+) => {
+  try {
+    const fileId = await uploadImage(image, idempotencyKey);
+    const objectImage = storage.getFileView(config.storageId, fileId).toString();
+    const documentId = idempotencyKey ?? ID.unique();
+
+    try {
+      const newAppraisal = await databases.createDocument(
+        config.databaseId,
+        config.appraisedCollectionId,
+        documentId,
+        toAppraisalDocument(valuation, { objectImage, appraiser: appraiserId })
+      );
+      return parseAppraisal(newAppraisal);
+    } catch (error) {
+      const appError = toAppError(error);
+      // An earlier attempt got through, even if its response never arrived.
+      if (idempotencyKey && appError instanceof ConflictError) {
+        return parseAppraisal(
+          await databases.getDocument(config.databaseId, config.appraisedCollectionId, documentId)
+        );
+      }
+      // Don't leave an orphaned image behind in the bucket. A keyed attempt
+      // that may be retried keeps it: the request may have succeeded, and a
+      // retry reuses the file.
+      if (!idempotencyKey || isPermanentError(appError)) {
+        await deleteImage(fileId);
+      }
+      throw appError;
+    }
+  } catch (error) {
+    throw reportError(error);
+  }
+};
+
+// The saved appraisal still needs its image, so only an unsaved one's goes.
+export const deleteAppraisalUpload = async (idempotencyKey: string) => {
+  try {
+    await databases.getDocument(config.databaseId, config.appraisedCollectionId, idempotencyKey);
+    return;
+  } catch (error) {
+    const appError = toAppError(error);
+    if (!(appError instanceof NotFoundError)) throw reportError(appError);
+  }
+  try {
+    await storage.deleteFile(config.storageId, idempotencyKey);
+  } catch (error) {
+    const appError = toAppError(error);
+    if (!(appError instanceof NotFoundError)) throw reportError(appError);
+  }
+};
+
+// Realtime payloads don't expand relationships, so an appraisal whose
+// appraiser arrives as a bare id is fetched in full instead.
+const readEventAppraisal = async (payload: Models.Document) => {
+  try {
+    return parseAppraisal(payload);
+  } catch (error) {
+    if (!(error instanceof InvalidDocumentError)) throw error;
+    return parseAppraisal(
+      await databases.getDocument(config.databaseId, config.appraisedCollectionId, payload.$id)
+    );
+  }
+};
+
+const EVENT_TYPES = ["create", "update", "delete"] as const;
+const RECONNECT_CHECK_INTERVAL = 2_000;
+
+// The SDK reopens a dropped socket by itself and has no hook to say so, so
+// its socket, private to the client, is checked on an interval instead. A
+// socket that's open again, or replaced by a new open one, is a reconnect.
+const watchReconnects = (onReconnect: () => void) => {
+  const { realtime } = client as unknown as { realtime?: { socket?: WebSocket } };
+  let connected: WebSocket | null = null;
+  let dropped = false;
+  const timer = setInterval(() => {
+    const socket = realtime?.socket;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      dropped ||= connected !== null;
+      return;
+    }
+    if (connected && (dropped || socket !== connected)) onReconnect();
+    connected = socket;
+    dropped = false;
+  }, RECONNECT_CHECK_INTERVAL);
+  return () => clearInterval(timer);
+};
+
+export const subscribeToAppraisals = (
+  listener: (event: AppraisalEvent) => void,
+  { onReconnect }: SubscribeOptions = {}
+) => {
+  const unsubscribe = client.subscribe<Models.Document>(
+    `databases.${config.databaseId}.collections.${config.appraisedCollectionId}.documents`,
+    async ({ events, payload }) => {
+      const type = EVENT_TYPES.find((name) => events.some((event) => event.endsWith(`.${name}`)));
+      if (!type) return;
+      if (type === "delete") {
+        listener({ type, id: payload.$id });
+        return;
+      }
+      try {
+        listener({ type, appraisal: await readEventAppraisal(payload) });
+      } catch (error) {
+        // One unreadable event shouldn't end the subscription.
+        reportHandledError(error);
+      }
+    }
+  );
+  const stopWatching = onReconnect ? watchReconnects(onReconnect) : undefined;
+  return () => {
+    stopWatching?.();
+    unsubscribe();
+  };
+};
+
+export const appwriteDataSource: DataSource = {
+  createUser,
+  isUsernameAvailable,
+  signIn,
+  getCurrentUser,
+  signOut,
+  signOutEverywhere,
+  listSessions,
+  revokeSession,
+  requestPasswordRecovery,
+  resetPassword,
+  sendVerificationEmail,
+  confirmEmailVerification,
+  getAllPosts,
+  getUserPosts,
+  getUserStats,
+  searchPosts,
+  createAppraisal,
+  deleteAppraisalUpload,
+  subscribeToAppraisals,
+};
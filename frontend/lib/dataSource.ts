@@ -0,0 +1,199 @@
+import type { Models } from "react-native-appwrite";
+import type { Valuation } from "@/lib/valuation";
+import type { Appraisal, User } from "@/lib/models";
+import type { FeedQuery } from "@/lib/feedQuery";
+import type { AppraisalStats } from "@/lib/appraisalStats";
+
+/** A local image to upload, e.g. a camera capture. */
+export interface ImageUpload {
+  uri: string;
+  name?: string;
+  type?: string;
+}
+
+export interface CreateAppraisalOptions {
+  /** Used as the document and file id, so must be a valid Appwrite id. */
+  idempotencyKey?: string;
+}
+
+/** A change to the appraised collection, pushed by the backend. */
+export type AppraisalEvent =
+  | { type: "create" | "update"; appraisal: Appraisal }
+  | { type: "delete"; id: string };
+
+export interface SubscribeOptions {
+  /**
+   * Called when the connection comes back after dropping. Events sent
+   * while it was down are lost, so whatever they'd have changed is stale.
+   */
+  onReconnect?: () => void;
+}
+
+/** Where to start a page and how big it is. */
+export interface PageRequest {
+  limit?: number;
+  /** The `nextCursor` of the previous page; omit for the first page. */
+  cursor?: string | null;
+}
+
+/** One page of a listing. */
+export interface Page<T> {
+  documents: T[];
+  /** Pass as `cursor` to fetch the next page; null on the last page. */
+  nextCursor: string | null;
+}
+
+export const DEFAULT_PAGE_SIZE = 10;
+
+/**
+ * Where recovery and verification emails link to. The backend appends
+ * `userId`, `secret` and `expire`, and the links open the matching route.
+ */
+export const RESET_PASSWORD_URL = "appraisal://reset-password";
+export const VERIFY_EMAIL_URL = "appraisal://verify-email";
+
+/**
+ * Everything the app reads or writes, behind one interface so the backend
+ * can be swapped. Implementations validate what they read (see lib/models),
+ * so callers can trust the shapes. Failures reject with an `AppError`
+ * subclass (see lib/errors); ones caused by the session having ended also
+ * notify `onUnauthorized` subscribers (see lib/sessionEvents).
+ */
+export interface DataSource {
+  /**
+   * Creates the account and its user document, then signs in. The form is
+   * checked against lib/validation first, and again by the server; problems
+   * and a taken username, in any case, are thrown as a ValidationError with
+   * per-field issues.
+   */
+  createUser(email: string, password: string, username: string): Promise<User>;
+  isUsernameAvailable(username: string): Promise<boolean>;
+  signIn(email: string, password: string): Promise<Models.Session>;
+  /**
+   * Resolves to null when nobody is signed in. An account whose user
+   * document is missing or incomplete, e.g. after an interrupted sign-up,
+   * gets it repaired here.
+   */
+  getCurrentUser(): Promise<User | null>;
+  /** Ends the current session. */
+  signOut(): Promise<void>;
+  /** Ends every session of the current account, this one included. */
+  signOutEverywhere(): Promise<void>;
+  listSessions(): Promise<Models.Session[]>;
+  revokeSession(sessionId: string): Promise<void>;
+  /**
+   * Emails a link to {@link RESET_PASSWORD_URL}. Resolves whether or not an
+   * account uses `email`, so the form can't be used to look accounts up.
+   */
+  requestPasswordRecovery(email: string): Promise<void>;
+  /** Sets a new password with the secret from a recovery link. */
+  resetPassword(userId: string, secret: string, password: string): Promise<void>;
+  /** Emails the signed-in user a link to {@link VERIFY_EMAIL_URL}. */
+  sendVerificationEmail(): Promise<void>;
+  /** Marks the email as verified with the secret from a verification link. */
+  confirmEmailVerification(userId: string, secret: string): Promise<void>;
+  /** Lists appraisals, newest first unless `query` says otherwise. */
+  getAllPosts(page?: PageRequest, query?: FeedQuery): Promise<Page<Appraisal>>;
+  /** Lists one user's appraisals, newest first. */
+  getUserPosts(userId: string, page?: PageRequest): Promise<Page<Appraisal>>;
+  /**
+   * Totals over all of one user's appraisals.
+   * @throws {CancelledError} If `signal` is aborted before every page is read.
+   */
+  getUserStats(userId: string, options?: { signal?: AbortSignal }): Promise<AppraisalStats>;
+  /**
+   * Full-text search over object names and descriptions, newest first. A
+   * blank query matches nothing.
+   */
+  searchPosts(query: string, page?: PageRequest): Promise<Page<Appraisal>>;
+  /**
+   * Uploads the image and saves the appraisal. Retrying with the same
+   * `idempotencyKey` never saves it twice: the existing one is returned.
+   */
+  createAppraisal(
+    image: ImageUpload,
+    valuation: Valuation,
+    appraiserId: string,
+    options?: CreateAppraisalOptions
+  ): Promise<Appraisal>;
+  /**
+   * Deletes the image a keyed `createAppraisal` that never went through left
+   * behind. Does nothing if the appraisal was saved after all.
+   */
+  deleteAppraisalUpload(idempotencyKey: string): Promise<void>;
+  /**
+   * Calls `listener` for every appraisal created, updated or deleted while
+   * subscribed. Returns an unsubscribe function.
+   */
+  subscribeToAppraisals(
+    listener: (event: AppraisalEvent) => void,
+    options?: SubscribeOptions
+  ): () => void;
+}
+
+export type DataSourceKind = "appwrite" | "memory";
+
+/**
+ * Picks the implementation: `EXPO_PUBLIC_DATA_SOURCE` wins if set, otherwise
+ * jest gets the in-memory one and the app talks to Appwrite.
+ */
+const resolveKind = (): DataSourceKind => {
+  const configured = process.env.EXPO_PUBLIC_DATA_SOURCE;
+  if (configured === "appwrite" || configured === "memory") return configured;
+  return process.env.NODE_ENV === "test" ? "memory" : "appwrite";
+};
+
+let current: DataSource | null = null;
+
+/** Returns the data source selected at startup. */
+export const getDataSource = (): DataSource => {
+  if (!current) {
+    // Required lazily so the unused implementation is never loaded.
+    current =
+      resolveKind() === "memory"
+        ? require("./memoryDataSource").createMemoryDataSource()
+        : require("./appwrite").appwriteDataSource;
+  }
+  return current!;
+};
+
+/** Replaces the data source, e.g. with a freshly seeded one in a test. */
+export const setDataSource = (dataSource: DataSource) => {
+  current = dataSource;
+};
+
+export const createUser: DataSource["createUser"] = (...args) =>
+  getDataSource().createUser(...args);
+export const isUsernameAvailable: DataSource["isUsernameAvailable"] = (...args) =>
+  getDataSource().isUsernameAvailable(...args);
+export const signIn: DataSource["signIn"] = (...args) => getDataSource().signIn(...args);
+export const getCurrentUser: DataSource["getCurrentUser"] = () =>
+  getDataSource().getCurrentUser();
+export const signOut: DataSource["signOut"] = () => getDataSource().signOut();
+export const signOutEverywhere: DataSource["signOutEverywhere"] = () =>
+  getDataSource().signOutEverywhere();
+export const listSessions: DataSource["listSessions"] = () => getDataSource().listSessions();
+export const revokeSession: DataSource["revokeSession"] = (...args) =>
+  getDataSource().revokeSession(...args);
+export const requestPasswordRecovery: DataSource["requestPasswordRecovery"] = (...args) =>
+  getDataSource().requestPasswordRecovery(...args);
+export const resetPassword: DataSource["resetPassword"] = (...args) =>
+  getDataSource().resetPassword(...args);
+export const sendVerificationEmail: DataSource["sendVerificationEmail"] = () =>
+  getDataSource().sendVerificationEmail();
+export const confirmEmailVerification: DataSource["confirmEmailVerification"] = (...args) =>
+  getDataSource().confirmEmailVerification(...args);
+export const getAllPosts: DataSource["getAllPosts"] = (...args) =>
+  getDataSource().getAllPosts(...args);
+export const getUserPosts: DataSource["getUserPosts"] = (...args) =>
+  getDataSource().getUserPosts(...args);
+export const getUserStats: DataSource["getUserStats"] = (...args) =>
+  getDataSource().getUserStats(...args);
+export const searchPosts: DataSource["searchPosts"] = (...args) =>
+  getDataSource().searchPosts(...args);
+export const createAppraisal: DataSource["createAppraisal"] = (...args) =>
+  getDataSource().createAppraisal(...args);
+export const deleteAppraisalUpload: DataSource["deleteAppraisalUpload"] = (...args) =>
+  getDataSource().deleteAppraisalUpload(...args);
+export const subscribeToAppraisals: DataSource["subscribeToAppraisals"] = (...args) =>
+  getDataSource().subscribeToAppraisals(...args);
@@ -0,0 +1,48 @@
+import * as tf from "@tensorflow/tfjs";
+import { Platform } from "react-native";
+
+/**
+ * TF.js backend to run on. "cpu" works everywhere, including jest, and
+ * "rn-webgl" is the GPU backend provided by tfjs-react-native.
+ */
+export type TensorFlowBackend = "cpu" | "rn-webgl";
+
+/** What the app runs on: the GPU on devices, the CPU on web. */
+export const APP_BACKEND: TensorFlowBackend = Platform.OS === "web" ? "cpu" : "rn-webgl";
+
+let initialized: { backend: TensorFlowBackend; ready: Promise<TensorFlowBackend> } | null = null;
+
+/**
+ * Selects and initializes the TF.js backend. Safe to call more than once
+ * with the same backend. Models loaded on one backend can't be moved to
+ * another, so asking for a different backend afterwards rejects.
+ */
+export function initTensorFlow(
+  backend: TensorFlowBackend = "cpu"
+): Promise<TensorFlowBackend> {
+  if (initialized && initialized.backend !== backend) {
+    return Promise.reject(
+      new Error(
+        `initTensorFlow: already running on "${initialized.backend}", can't switch to "${backend}"`
+      )
+    );
+  }
+  if (!initialized) {
+    const ready = (async () => {
+      if (backend === "rn-webgl") {
+        // Registers the React Native platform and the rn-webgl backend.
+        // Required lazily so headless environments never load expo-gl.
+        require("@tensorflow/tfjs-react-native");
+      }
+      await tf.setBackend(backend);
+      await tf.ready();
+      return backend;
+    })();
+    // Let a failed initialization be retried, on any backend.
+    ready.catch(() => {
+      initialized = null;
+    });
+    initialized = { backend, ready };
+  }
+  return initialized.ready;
+}
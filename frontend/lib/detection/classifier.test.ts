@@ -0,0 +1,103 @@
+import * as tf from "@tensorflow/tfjs";
+import type { MobileNet } from "@tensorflow-models/mobilenet";
+import { Detection } from "@/utils/detection";
+import { classifyDetections } from "@/lib/detection";
+
+// A stub model that names each crop after its mean brightness, so tests can
+// tell which part of the image it was given.
+const stubModel = () => {
+  const classify = jest.fn(async (crop: tf.Tensor3D, topK?: number) => {
+    const mean = tf.tidy(() => crop.mean().dataSync()[0]);
+    return Array.from({ length: topK ?? 3 }, (_, rank) => ({
+      className: `mean ${Math.round(mean)} #${rank}`,
+      probability: 1 / (rank + 2),
+    }));
+  });
+  return { model: { classify } as unknown as MobileNet, classify };
+};
+
+const detection = (x1: number, y1: number, x2: number, y2: number, score = 0.9): Detection => ({
+  box: { x1, y1, x2, y2 },
+  score,
+  classId: 0,
+  label: "person",
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("classifyDetections", () => {
+  it("crops each box with padding, in normalized [y1, x1, y2, x2] order", async () => {
+    const cropAndResize = jest.spyOn(tf.image, "cropAndResize");
+    const { model } = stubModel();
+    const image = tf.zeros([100, 200, 3], "int32") as tf.Tensor3D;
+
+    await classifyDetections(model, image, [detection(50, 20, 150, 70), detection(0, 0, 20, 10)]);
+    image.dispose();
+
+    const [, boxes, boxIndices, size] = cropAndResize.mock.calls[0];
+    // 10% of 100x50 is 10 and 5 pixels; the second box is clamped to the image.
+    expect(boxes).toEqual([
+      [15 / 100, 40 / 200, 75 / 100, 160 / 200],
+      [0, 0, 11 / 100, 22 / 200],
+    ]);
+    expect(boxIndices).toEqual([0, 0]);
+    expect(size).toEqual([224, 224]);
+  });
+
+  it("classifies the right region of the image", async () => {
+    const { model } = stubModel();
+    // Left half black, right half white.
+    const image = tf.tidy(() =>
+      tf.concat([tf.zeros([100, 100, 3]), tf.fill([100, 100, 3], 255)], 1)
+    ) as tf.Tensor3D;
+
+    const [left, right] = await classifyDetections(
+      model,
+      image,
+      [detection(10, 10, 60, 60), detection(140, 10, 190, 60)],
+      { padding: 0 }
+    );
+    image.dispose();
+
+    expect(left.labels?.[0].className).toBe("mean 0 #0");
+    expect(right.labels?.[0].className).toBe("mean 255 #0");
+  });
+
+  it("labels only the first maxDetections detections with the top-k labels", async () => {
+    const { model, classify } = stubModel();
+    const image = tf.zeros([100, 100, 3], "int32") as tf.Tensor3D;
+    const detections = Array.from({ length: 7 }, (_, i) => detection(i, i, i + 10, i + 10));
+
+    const classified = await classifyDetections(model, image, detections, { topK: 5 });
+    image.dispose();
+
+    expect(classify).toHaveBeenCalledTimes(5);
+    expect(classify.mock.calls.every(([, topK]) => topK === 5)).toBe(true);
+    expect(classified.map(({ labels }) => labels?.length)).toEqual([
+      5, 5, 5, 5, 5, undefined, undefined,
+    ]);
+    expect(classified[6]).toBe(detections[6]);
+  });
+
+  it("skips the model when there is nothing to classify", async () => {
+    const { model, classify } = stubModel();
+    const image = tf.zeros([10, 10, 3], "int32") as tf.Tensor3D;
+
+    await expect(classifyDetections(model, image, [])).resolves.toEqual([]);
+    image.dispose();
+    expect(classify).not.toHaveBeenCalled();
+  });
+
+  it("frees its tensors", async () => {
+    const { model } = stubModel();
+    const image = tf.zeros([100, 100, 3], "int32") as tf.Tensor3D;
+    const before = tf.memory().numTensors;
+
+    await classifyDetections(model, image, [detection(10, 10, 60, 60)]);
+
+    expect(tf.memory().numTensors).toBe(before);
+    image.dispose();
+  });
+});
@@ -0,0 +1,98 @@
+import * as tf from "@tensorflow/tfjs";
+import * as mobilenet from "@tensorflow-models/mobilenet";
+import { ClassifierLabel, Detection } from "@/utils/detection";
+import { APP_BACKEND, TensorFlowBackend, initTensorFlow } from "./backend";
+
+/** Side of the square crops fed to mobilenet. */
+const CROP_SIZE = 224;
+
+export interface ClassifyOptions {
+  /** Number of labels attached to each detection. */
+  topK?: number;
+  /** Extra context around each box, as a fraction of its width and height. */
+  padding?: number;
+  /** Only the most confident detections are classified. */
+  maxDetections?: number;
+}
+
+/**
+ * Crops every detection out of `image`, classifies the crops with mobilenet
+ * and attaches the top-k labels to each detection.
+ *
+ * @param image The RGB image the detections were found on, [height, width, 3].
+ * @param detections Detections with boxes in `image` pixels.
+ * @returns The detections, with `labels` set on those that were classified.
+ */
+export async function classifyDetections(
+  model: mobilenet.MobileNet,
+  image: tf.Tensor3D,
+  detections: Detection[],
+  { topK = 3, padding = 0.1, maxDetections = 5 }: ClassifyOptions = {}
+): Promise<Detection[]> {
+  const targets = detections.slice(0, maxDetections);
+  if (targets.length === 0) {
+    return detections;
+  }
+
+  const [height, width] = image.shape;
+
+  // cropAndResize takes normalized [y1, x1, y2, x2] boxes.
+  const boxes = targets.map(({ box }) => {
+    const padX = (box.x2 - box.x1) * padding;
+    const padY = (box.y2 - box.y1) * padding;
+    return [
+      Math.max(0, box.y1 - padY) / height,
+      Math.max(0, box.x1 - padX) / width,
+      Math.min(height, box.y2 + padY) / height,
+      Math.min(width, box.x2 + padX) / width,
+    ];
+  });
+
+  const crops = tf.tidy(() =>
+    tf.image.cropAndResize(
+      image.toFloat().expandDims(0) as tf.Tensor4D,
+      boxes,
+      targets.map(() => 0),
+      [CROP_SIZE, CROP_SIZE]
+    )
+  );
+
+  try {
+    const labels: ClassifierLabel[][] = [];
+    for (let i = 0; i < targets.length; i++) {
+      const crop = tf.tidy(() => crops.slice([i], [1]).squeeze([0]) as tf.Tensor3D);
+      try {
+        labels.push(await model.classify(crop, topK));
+      } finally {
+        crop.dispose();
+      }
+    }
+
+    return detections.map((detection, i) =>
+      i < labels.length ? { ...detection, labels: labels[i] } : detection
+    );
+  } finally {
+    crops.dispose();
+  }
+}
+
+let shared: Promise<mobilenet.MobileNet> | null = null;
+
+/**
+ * Returns the app-wide mobilenet classifier, loading it on first use.
+ */
+export function getClassifier(
+  backend: TensorFlowBackend = APP_BACKEND
+): Promise<mobilenet.MobileNet> {
+  if (!shared) {
+    shared = (async () => {
+      await initTensorFlow(backend);
+      return mobilenet.load({ version: 2, alpha: 1.0 });
+    })();
+    // Let a failed load be retried.
+    shared.catch(() => {
+      shared = null;
+    });
+  }
+  return shared;
+}
@@ -0,0 +1,86 @@
+import * as tf from "@tensorflow/tfjs";
+import * as cocoSsd from "@tensorflow-models/coco-ssd";
+import { Detection } from "@/utils/detection";
+import { COCO_CLASSES, COCO_LABELS, labelFor } from "@/utils/labelMap";
+import { DetectOptions, Detector } from "./types";
+import { TensorFlowBackend, initTensorFlow } from "./backend";
+
+export interface CocoSsdDetectorOptions {
+  base?: cocoSsd.ObjectDetectionBaseModel;
+  /** Custom model location, for regions that can't reach the default host. */
+  modelUrl?: string;
+  backend?: TensorFlowBackend;
+  /**
+   * Post-processing defaults, overridable per `detect` call. Only
+   * `conf_thresh` and `max_det` apply; see {@link createCocoSsdDetector}.
+   */
+  defaults?: DetectOptions;
+}
+
+/**
+ * Detector backed by the pre-trained COCO-SSD model. It resizes its input
+ * internally, so images are passed through without preprocessing and boxes
+ * already come back in image pixels.
+ *
+ * The model runs its own class-agnostic NMS, which can't be turned off, so
+ * its results are used as they are rather than suppressed a second time.
+ * That NMS also uses `conf_thresh` as its IoU threshold, and the other
+ * suppression options don't apply.
+ */
+export function createCocoSsdDetector({
+  base = "lite_mobilenet_v2",
+  modelUrl,
+  backend = "cpu",
+  defaults,
+}: CocoSsdDetectorOptions = {}): Detector {
+  let model: cocoSsd.ObjectDetection | null = null;
+
+  const detect: Detector["detect"] = async (image, options) => {
+    if (!model) {
+      throw new Error("COCO-SSD detector used before load()");
+    }
+
+    const { conf_thresh = 0.5, max_det = 300 } = { ...defaults, ...options };
+    if (max_det <= 0) return [];
+    const raw = await model.detect(image, max_det, conf_thresh);
+
+    const detections: Detection[] = [];
+    for (const { bbox: [x, y, w, h], class: name, score } of raw) {
+      // A class missing from our list would otherwise be mislabeled.
+      const classId = COCO_CLASSES.indexOf(name);
+      if (classId < 0) continue;
+      detections.push({
+        box: { x1: x, y1: y, x2: x + w, y2: y + h },
+        score,
+        classId,
+        label: labelFor(COCO_LABELS, classId),
+      });
+    }
+    return detections.sort((a, b) => b.score - a.score);
+  };
+
+  return {
+    name: "coco-ssd",
+    get isLoaded() {
+      return model !== null;
+    },
+    async load() {
+      if (model) return;
+      await initTensorFlow(backend);
+      model = await cocoSsd.load({ base, modelUrl });
+    },
+    async warmUp() {
+      const blank = tf.zeros([300, 300, 3], "int32") as tf.Tensor3D;
+      try {
+        await detect(blank);
+      } finally {
+        blank.dispose();
+      }
+    },
+    detect,
+    dispose() {
+      model?.dispose();
+      model = null;
+    },
+  };
+}
@@ -0,0 +1,133 @@
+import * as tf from "@tensorflow/tfjs";
+import * as cocoSsd from "@tensorflow-models/coco-ssd";
+import {
+  createCocoSsdDetector,
+  createYoloDetector,
+  getDetector,
+  initTensorFlow,
+} from "@/lib/detection";
+
+// Everything runs on the TF.js CPU backend; only the model weights are faked.
+jest.mock("@tensorflow/tfjs", () => ({
+  ...jest.requireActual("@tensorflow/tfjs"),
+  loadGraphModel: jest.fn(),
+}));
+jest.mock("@tensorflow-models/coco-ssd", () => ({ load: jest.fn() }));
+
+const fakeCocoSsd = (results: { bbox: number[]; class: string; score: number }[]) => {
+  const model = { detect: jest.fn(async () => results), dispose: jest.fn() };
+  jest.mocked(cocoSsd.load).mockResolvedValue(model as unknown as cocoSsd.ObjectDetection);
+  return model;
+};
+
+afterEach(() => {
+  jest.clearAllMocks();
+});
+
+describe("createYoloDetector", () => {
+  // A 200x100 photo letterboxed into 64x64 is scaled by 0.32 and padded by
+  // 16 rows at the top.
+  const image = () => tf.fill([100, 200, 3], 255, "int32") as tf.Tensor3D;
+
+  const fakeGraphModel = (rows: number[][]) => {
+    const inputs: tf.Tensor[] = [];
+    const model = {
+      executeAsync: jest.fn(async (input: tf.Tensor) => {
+        inputs.push(input.clone());
+        return tf.tensor3d([rows]);
+      }),
+      dispose: jest.fn(),
+    };
+    jest.mocked(tf.loadGraphModel).mockResolvedValue(model as unknown as tf.GraphModel);
+    return inputs;
+  };
+
+  it("preprocesses, suppresses and maps boxes back onto the photo", async () => {
+    const inputs = fakeGraphModel([
+      // [cx, cy, w, h, objectness, class_0, class_1] in model input pixels.
+      [32, 32, 32, 16, 0.9, 0.1, 0.9],
+      [33, 32, 32, 16, 0.8, 0.1, 0.9],
+      [10, 40, 4, 4, 0.2, 0.9, 0.1],
+      // Padding, so there are more rows than columns like a real output.
+      ...Array.from({ length: 5 }, () => [0, 0, 0, 0, 0, 0, 0]),
+    ]);
+    const detector = createYoloDetector({ model: "model.json", inputSize: 64 });
+    await detector.load();
+
+    const photo = image();
+    const detections = await detector.detect(photo, { conf_thresh: 0.5, iou_thresh: 0.45 });
+    photo.dispose();
+
+    expect(inputs[0].shape).toEqual([1, 64, 64, 3]);
+    expect(inputs[0].max().dataSync()[0]).toBeCloseTo(1);
+    expect(detections).toHaveLength(1);
+    expect(detections[0]).toMatchObject({ classId: 1, label: "bicycle" });
+    expect(detections[0].score).toBeCloseTo(0.81);
+    expect(detections[0].box.x1).toBeCloseTo(50);
+    expect(detections[0].box.y1).toBeCloseTo(25);
+    expect(detections[0].box.x2).toBeCloseTo(150);
+    expect(detections[0].box.y2).toBeCloseTo(75);
+  });
+
+  it("refuses to detect before load", async () => {
+    const detector = createYoloDetector({ model: "model.json" });
+    await expect(detector.detect(image())).rejects.toThrow("before load()");
+  });
+});
+
+describe("createCocoSsdDetector", () => {
+  it("passes the thresholds to the model and skips unknown classes", async () => {
+    const model = fakeCocoSsd([
+      { bbox: [10, 20, 30, 40], class: "clock", score: 0.6 },
+      { bbox: [0, 0, 5, 5], class: "unicorn", score: 0.95 },
+      { bbox: [50, 50, 10, 10], class: "vase", score: 0.8 },
+    ]);
+    const detector = createCocoSsdDetector({ defaults: { conf_thresh: 0.4 } });
+    await detector.load();
+
+    const blank = tf.zeros([300, 300, 3], "int32") as tf.Tensor3D;
+    const detections = await detector.detect(blank, { max_det: 5 });
+    blank.dispose();
+
+    expect(model.detect).toHaveBeenCalledWith(blank, 5, 0.4);
+    expect(detections.map(({ label, score }) => [label, score])).toEqual([
+      ["vase", 0.8],
+      ["clock", 0.6],
+    ]);
+    expect(detections[1].box).toEqual({ x1: 10, y1: 20, x2: 40, y2: 60 });
+  });
+});
+
+describe("getDetector", () => {
+  it("loads one detector per config", async () => {
+    fakeCocoSsd([]);
+    const lite = await getDetector({ kind: "coco-ssd", base: "lite_mobilenet_v2" });
+    const again = await getDetector({ kind: "coco-ssd", base: "lite_mobilenet_v2" });
+    const full = await getDetector({ kind: "coco-ssd", base: "mobilenet_v2" });
+
+    expect(again).toBe(lite);
+    expect(full).not.toBe(lite);
+    expect(cocoSsd.load).toHaveBeenCalledTimes(2);
+  });
+
+  it("keys YOLO models loaded from IO handlers by id", async () => {
+    jest.mocked(tf.loadGraphModel).mockResolvedValue({
+      executeAsync: jest.fn(async () => tf.zeros([1, 8, 7])),
+      dispose: jest.fn(),
+    } as unknown as tf.GraphModel);
+    const handler = (): tf.io.IOHandler => ({ load: jest.fn() });
+
+    const a = await getDetector({ kind: "yolo", model: handler(), id: "a", inputSize: 32 });
+    const b = await getDetector({ kind: "yolo", model: handler(), id: "b", inputSize: 32 });
+
+    expect(b).not.toBe(a);
+    expect(() => getDetector({ kind: "yolo", model: handler() })).toThrow("needs an id");
+  });
+});
+
+describe("initTensorFlow", () => {
+  it("refuses to switch backends once initialized", async () => {
+    await initTensorFlow("cpu");
+    await expect(initTensorFlow("rn-webgl")).rejects.toThrow('can\'t switch to "rn-webgl"');
+  });
+});
@@ -0,0 +1,21 @@
+import * as tf from "@tensorflow/tfjs";
+import RNFS from "react-native-fs";
+
+/**
+ * Decodes a base64 encoded JPEG, such as the `base64` field of a camera
+ * capture, into an RGB tensor of shape [height, width, 3].
+ */
+export function decodeBase64Jpeg(base64: string): tf.Tensor3D {
+  // Required lazily, like in `initTensorFlow`, so importing this module
+  // never loads expo-gl.
+  const { decodeJpeg } =
+    require("@tensorflow/tfjs-react-native") as typeof import("@tensorflow/tfjs-react-native");
+  const bytes = tf.util.encodeString(base64, "base64");
+  return decodeJpeg(new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength), 3);
+}
+
+/** Reads a JPEG from a local file URI into an RGB tensor. */
+export async function loadImageTensor(uri: string): Promise<tf.Tensor3D> {
+  const base64 = await RNFS.readFile(uri.replace(/^file:\/\//, ""), "base64");
+  return decodeBase64Jpeg(base64);
+}
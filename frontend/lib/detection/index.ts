@@ -0,0 +1,74 @@
+import { CocoSsdDetectorOptions, createCocoSsdDetector } from "./cocoSsdDetector";
+import { YoloDetectorOptions, createYoloDetector } from "./yoloDetector";
+import { Detector } from "./types";
+import { APP_BACKEND } from "./backend";
+
+export type { Detector, DetectOptions } from "./types";
+export type { TensorFlowBackend } from "./backend";
+export { APP_BACKEND, initTensorFlow } from "./backend";
+export { preprocess } from "./preprocess";
+export { createCocoSsdDetector } from "./cocoSsdDetector";
+export { createYoloDetector } from "./yoloDetector";
+export { classifyDetections, getClassifier } from "./classifier";
+export type { ClassifyOptions } from "./classifier";
+
+export type DetectorConfig =
+  | ({ kind: "coco-ssd" } & CocoSsdDetectorOptions)
+  | ({
+      kind: "yolo";
+      /**
+       * Names the model for {@link getDetector}'s cache. Required when
+       * `model` is an IO handler rather than a URL.
+       */
+      id?: string;
+    } & YoloDetectorOptions);
+
+/** Creates a detector for whichever backend the config names. */
+export function createDetector(config: DetectorConfig): Detector {
+  switch (config.kind) {
+    case "coco-ssd":
+      return createCocoSsdDetector(config);
+    case "yolo":
+      return createYoloDetector(config);
+  }
+}
+
+const shared = new Map<string, Promise<Detector>>();
+
+// IO handlers all serialize to the same JSON, so they are keyed by id.
+function cacheKey(config: DetectorConfig): string {
+  if (config.kind === "yolo" && typeof config.model !== "string") {
+    if (!config.id) {
+      throw new Error("getDetector: a YOLO model loaded from an IO handler needs an id");
+    }
+    return JSON.stringify({ ...config, model: config.id });
+  }
+  return JSON.stringify(config);
+}
+
+/**
+ * Returns the app-wide detector for `config`, loading and warming it up on
+ * first use so every screen shares a single copy of the model. Each distinct
+ * config gets its own detector; YOLO configs are told apart by model URL or
+ * by `id`.
+ */
+export function getDetector(
+  config: DetectorConfig = { kind: "coco-ssd", backend: APP_BACKEND }
+): Promise<Detector> {
+  const key = cacheKey(config);
+  let detector = shared.get(key);
+  if (!detector) {
+    detector = (async () => {
+      const created = createDetector(config);
+      await created.load();
+      await created.warmUp();
+      return created;
+    })();
+    // Let a failed load be retried.
+    detector.catch(() => {
+      shared.delete(key);
+    });
+    shared.set(key, detector);
+  }
+  return detector;
+}
@@ -0,0 +1,60 @@
+import * as tf from "@tensorflow/tfjs";
+import {
+  ImageTransform,
+  computeLetterbox,
+  computeResize,
+} from "@/utils/detection";
+
+export interface PreprocessOptions {
+  /** Width and height of the square model input. */
+  inputSize: number;
+  /** Keep the aspect ratio and pad the rest instead of stretching. */
+  letterbox?: boolean;
+  /** Gray level used for the letterbox padding, as in the YOLO reference code. */
+  padValue?: number;
+  /** Scale pixel values from [0, 255] to [0, 1]. */
+  normalize?: boolean;
+}
+
+/**
+ * Turns an RGB image of shape [height, width, 3] into a batched model input
+ * of shape [1, inputSize, inputSize, 3], and records the transform needed to
+ * map boxes back onto the original image.
+ */
+export function preprocess(
+  image: tf.Tensor3D,
+  { inputSize, letterbox = true, padValue = 114, normalize = true }: PreprocessOptions
+): { input: tf.Tensor4D; transform: ImageTransform } {
+  const [height, width] = image.shape;
+  const transform = letterbox
+    ? computeLetterbox(width, height, inputSize, inputSize)
+    : computeResize(width, height, inputSize, inputSize);
+
+  const input = tf.tidy(() => {
+    const resizedWidth = Math.round(width * transform.scaleX);
+    const resizedHeight = Math.round(height * transform.scaleY);
+    let pixels: tf.Tensor3D = tf.image.resizeBilinear(
+      image.toFloat(),
+      [resizedHeight, resizedWidth]
+    );
+
+    if (letterbox) {
+      pixels = tf.pad(
+        pixels,
+        [
+          [transform.padY, inputSize - resizedHeight - transform.padY],
+          [transform.padX, inputSize - resizedWidth - transform.padX],
+          [0, 0],
+        ],
+        padValue
+      );
+    }
+
+    if (normalize) {
+      pixels = pixels.div(255);
+    }
+    return pixels.expandDims(0) as tf.Tensor4D;
+  });
+
+  return { input, transform };
+}
@@ -0,0 +1,28 @@
+import type { Tensor3D } from "@tensorflow/tfjs";
+import type { Detection } from "@/utils/detection";
+import type { NmsOptions } from "@/utils/nonMaxSuppression";
+
+/** Post-processing knobs a caller can override per `detect` call. */
+export type DetectOptions = Omit<NmsOptions, "numBoxes" | "stride" | "labels">;
+
+/**
+ * An on-device object detector.
+ *
+ * Implementations wrap a specific model but all share the same lifecycle:
+ * `load` once, optionally `warmUp` so the first real frame isn't slow, then
+ * `detect` as many times as needed, and `dispose` when done.
+ */
+export interface Detector {
+  /** Which backend this detector wraps, e.g. "coco-ssd" or "yolo". */
+  readonly name: string;
+  readonly isLoaded: boolean;
+  load(): Promise<void>;
+  /** Runs one inference on a blank input to compile kernels ahead of time. */
+  warmUp(): Promise<void>;
+  /**
+   * Detects objects in an RGB image tensor of shape [height, width, 3].
+   * Boxes in the result are in the image's own pixel coordinates.
+   */
+  detect(image: Tensor3D, options?: DetectOptions): Promise<Detection[]>;
+  dispose(): void;
+}
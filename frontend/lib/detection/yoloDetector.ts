@@ -0,0 +1,114 @@
+import * as tf from "@tensorflow/tfjs";
+import { nonMaxSuppression } from "@/utils/nonMaxSuppression";
+import { LabelMap, COCO_LABELS } from "@/utils/labelMap";
+import { mapDetectionsToImage, scaleBox } from "@/utils/detection";
+import { DetectOptions, Detector } from "./types";
+import { TensorFlowBackend, initTensorFlow } from "./backend";
+import { preprocess } from "./preprocess";
+
+export interface YoloDetectorOptions {
+  /** Graph model URL, or an IO handler such as tfjs-react-native's `bundleResourceIO`. */
+  model: string | tf.io.IOHandler;
+  /** Width and height of the square model input. */
+  inputSize?: number;
+  labels?: LabelMap;
+  /**
+   * "yolov5" rows are [x, y, w, h, objectness, classes...]; "yolov8" rows
+   * have no objectness column.
+   */
+  format?: "yolov5" | "yolov8";
+  /** Set when the model emits boxes as fractions of the input size. */
+  normalizedBoxes?: boolean;
+  letterbox?: boolean;
+  backend?: TensorFlowBackend;
+  /** Post-processing defaults, overridable per `detect` call. */
+  defaults?: DetectOptions;
+}
+
+/**
+ * Detector backed by a custom YOLO model exported to the TF.js graph format.
+ */
+export function createYoloDetector({
+  model: source,
+  inputSize = 640,
+  labels = COCO_LABELS,
+  format = "yolov5",
+  normalizedBoxes = false,
+  letterbox = true,
+  backend = "cpu",
+  defaults,
+}: YoloDetectorOptions): Detector {
+  let model: tf.GraphModel | null = null;
+
+  const detect: Detector["detect"] = async (image, options) => {
+    if (!model) {
+      throw new Error("YOLO detector used before load()");
+    }
+
+    const { input, transform } = preprocess(image, { inputSize, letterbox });
+    let output: tf.Tensor;
+    try {
+      output = (await model.executeAsync(input)) as tf.Tensor;
+    } finally {
+      input.dispose();
+    }
+
+    // Bring the output to [numBoxes, stride], whichever way it was exported.
+    const rows = tf.tidy(() => {
+      let result = output.squeeze([0]) as tf.Tensor2D;
+      if (result.shape[0] < result.shape[1]) {
+        result = result.transpose();
+      }
+      if (format === "yolov8") {
+        const [boxes, scores] = tf.split(result, [4, result.shape[1] - 4], 1);
+        const objectness = tf.ones([result.shape[0], 1]);
+        result = tf.concat([boxes, objectness, scores], 1) as tf.Tensor2D;
+      }
+      return result;
+    });
+    output.dispose();
+
+    const [numBoxes, stride] = rows.shape;
+    const data = (await rows.data()) as Float32Array;
+    rows.dispose();
+
+    const detections = nonMaxSuppression(data, {
+      ...defaults,
+      ...options,
+      numBoxes,
+      stride,
+      labels,
+    }).map((detection) =>
+      normalizedBoxes
+        ? { ...detection, box: scaleBox(detection.box, inputSize, inputSize) }
+        : detection
+    );
+
+    return mapDetectionsToImage(detections, transform);
+  };
+
+  return {
+    name: "yolo",
+    get isLoaded() {
+      return model !== null;
+    },
+    async load() {
+      if (model) return;
+      await initTensorFlow(backend);
+      model = await tf.loadGraphModel(source);
+    },
+    async warmUp() {
+      const blank = tf.zeros([inputSize, inputSize, 3], "int32") as tf.Tensor3D;
+      try {
+        await detect(blank);
+      } finally {
+        blank.dispose();
+      }
+    },
+    detect,
+    dispose() {
+      model?.dispose();
+      model = null;
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import {
+  ForbiddenError,
+  InvalidCredentialsError,
+  InvalidTokenError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  UnauthorizedError,
+  UserAlreadyExistsError,
+  ValidationError,
+  toAppError,
+} from "@/lib/errors";
+
+export interface ErrorCopy {
+  title: string;
+  message: string;
+}
+
+/** What the user was doing, to pick the fallback wording. */
+export type ErrorContext = "sign-in" | "sign-up" | "feed" | "save" | "generic";
+
+const FALLBACKS: Record<ErrorContext, ErrorCopy> = {
+  "sign-in": { title: "Couldn't sign in", message: "Something went wrong, please try again." },
+  "sign-up": {
+    title: "Couldn't create your account",
+    message: "Something went wrong, please try again.",
+  },
+  feed: { title: "Couldn't load appraisals", message: "Pull down to try again." },
+  save: { title: "Couldn't save", message: "Something went wrong, please try again." },
+  generic: { title: "Something went wrong", message: "Please try again." },
+};
+
+/** Turns any error into a title and message fit to show the user. */
+export const describeError = (error: unknown, context: ErrorContext = "generic"): ErrorCopy => {
+  const appError = toAppError(error);
+  const fallback = FALLBACKS[context];
+
+  if (appError instanceof InvalidCredentialsError) {
+    return { title: "Wrong email or password", message: "Check your details and try again." };
+  }
+  if (appError instanceof UserAlreadyExistsError) {
+    return {
+      title: "Account already exists",
+      message: "An account with this email already exists. Try signing in instead.",
+    };
+  }
+  if (appError instanceof RateLimitedError) {
+    return {
+      title: "Slow down",
+      message: "Too many attempts. Wait a minute before trying again.",
+    };
+  }
+  if (appError instanceof NetworkError) {
+    return {
+      title: "You're offline",
+      message: "Check your internet connection and try again.",
+    };
+  }
+  if (appError instanceof ValidationError) {
+    // Appwrite's validation messages are already written for people.
+    return { title: fallback.title, message: appError.message };
+  }
+  if (appError instanceof UnauthorizedError) {
+    return { title: "Signed out", message: "Your session has ended. Please sign in again." };
+  }
+  if (appError instanceof ForbiddenError) {
+    return { title: fallback.title, message: "You don't have permission to do that." };
+  }
+  if (appError instanceof InvalidTokenError) {
+    return {
+      title: "Link expired",
+      message: "This link has expired or was already used. Request a new one.",
+    };
+  }
+  if (appError instanceof NotFoundError) {
+    return { title: fallback.title, message: "It may have been deleted." };
+  }
+  return fallback;
+};
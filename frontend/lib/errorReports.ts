@@ -0,0 +1,25 @@
+type Listener = (error: unknown) => void;
+
+const listeners = new Set<Listener>();
+
+/**
+ * Subscribes to failures the app got past by itself but that still point at
+ * a bug or bad data, e.g. an invalid document skipped in a list or a cache
+ * write that didn't stick. Meant for a crash reporter. Returns an
+ * unsubscribe function.
+ */
+export const onHandledError = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Reports a failure the app recovered from to every subscriber. In
+ * development it's also logged, so it isn't lost while nothing subscribes.
+ */
+export const reportHandledError = (error: unknown) => {
+  listeners.forEach((listener) => listener(error));
+  if (__DEV__) console.warn(error);
+};
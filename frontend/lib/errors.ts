@@ -0,0 +1,164 @@
+import { AppwriteException } from "react-native-appwrite";
+import type { FieldIssue } from "@/lib/models";
+
+/**
+ * Base class for every error the data layer throws. `cause` keeps the
+ * original error, e.g. the AppwriteException, for logging.
+ */
+export class AppError extends Error {
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "AppError";
+    this.cause = cause;
+  }
+}
+
+/** Wrong email or password. */
+export class InvalidCredentialsError extends AppError {
+  constructor(cause?: unknown) {
+    super("Invalid email or password", cause);
+    this.name = "InvalidCredentialsError";
+  }
+}
+
+/** Sign-up with an email (or id) that's already taken. */
+export class UserAlreadyExistsError extends AppError {
+  constructor(cause?: unknown) {
+    super("A user with the same email already exists", cause);
+    this.name = "UserAlreadyExistsError";
+  }
+}
+
+/** Too many requests; try again later. */
+export class RateLimitedError extends AppError {
+  constructor(cause?: unknown) {
+    super("Too many requests", cause);
+    this.name = "RateLimitedError";
+  }
+}
+
+/** The backend couldn't be reached at all. */
+export class NetworkError extends AppError {
+  constructor(cause?: unknown) {
+    super("Network request failed", cause);
+    this.name = "NetworkError";
+  }
+}
+
+/** The backend rejected the input, e.g. a password that's too short. */
+export class ValidationError extends AppError {
+  constructor(
+    message: string,
+    readonly issues: FieldIssue[] = [],
+    cause?: unknown
+  ) {
+    super(message, cause);
+    this.name = "ValidationError";
+  }
+}
+
+/** There is no valid session: signed out, expired or revoked. */
+export class UnauthorizedError extends AppError {
+  constructor(cause?: unknown) {
+    super("Not signed in", cause);
+    this.name = "UnauthorizedError";
+  }
+}
+
+/** Signed in, but not allowed to do this, e.g. a document's permissions deny it. */
+export class ForbiddenError extends AppError {
+  constructor(cause?: unknown) {
+    super("You don't have permission to do that", cause);
+    this.name = "ForbiddenError";
+  }
+}
+
+/** A recovery or verification link that expired or was already used. */
+export class InvalidTokenError extends AppError {
+  constructor(cause?: unknown) {
+    super("This link has expired or was already used", cause);
+    this.name = "InvalidTokenError";
+  }
+}
+
+/** Something with the same id already exists, e.g. a retried create. */
+export class ConflictError extends AppError {
+  constructor(message = "Already exists", cause?: unknown) {
+    super(message, cause);
+    this.name = "ConflictError";
+  }
+}
+
+/** The requested document or file doesn't exist. */
+export class NotFoundError extends AppError {
+  constructor(message = "Not found", cause?: unknown) {
+    super(message, cause);
+    this.name = "NotFoundError";
+  }
+}
+
+/** Thrown by a fetcher that stopped because its signal was aborted. */
+export class CancelledError extends AppError {
+  constructor() {
+    super("Request cancelled");
+    this.name = "CancelledError";
+  }
+}
+
+/**
+ * Whether the backend answered with a refusal it would give again, so the
+ * same request isn't worth retrying. Network failures, rate limits, lost
+ * sessions and server errors may all clear up by themselves.
+ */
+export const isPermanentError = (error: AppError) =>
+  error instanceof ValidationError ||
+  error instanceof ForbiddenError ||
+  error instanceof NotFoundError;
+
+// 401 types that mean the session itself is gone. Any other 401, e.g.
+// "user_unauthorized", is a permission denial for a valid session.
+const SESSION_ENDED_TYPES = [
+  "general_unauthorized_scope",
+  "user_session_not_found",
+  "user_jwt_invalid",
+  "user_blocked",
+];
+
+/** Turns anything thrown by the Appwrite SDK (or fetch) into an {@link AppError}. */
+export const toAppError = (error: unknown): AppError => {
+  if (error instanceof AppError) return error;
+
+  if (error instanceof AppwriteException) {
+    if (error.type === "user_invalid_credentials") return new InvalidCredentialsError(error);
+    if (error.type === "user_invalid_token") return new InvalidTokenError(error);
+    if (error.type === "user_already_exists" || error.type === "user_email_already_exists") {
+      return new UserAlreadyExistsError(error);
+    }
+    switch (error.code) {
+      // The SDK reports a failed fetch with no response as code 0.
+      case 0:
+        return new NetworkError(error);
+      case 400:
+        return new ValidationError(error.message, [], error);
+      case 401:
+        return SESSION_ENDED_TYPES.includes(error.type)
+          ? new UnauthorizedError(error)
+          : new ForbiddenError(error);
+      case 404:
+        return new NotFoundError(error.message, error);
+      case 409:
+        return new ConflictError(error.message, error);
+      case 429:
+        return new RateLimitedError(error);
+    }
+    return new AppError(error.message, error);
+  }
+
+  // fetch rejects with a TypeError when the device is offline.
+  if (error instanceof TypeError && /network/i.test(error.message)) {
+    return new NetworkError(error);
+  }
+  return new AppError(error instanceof Error ? error.message : String(error), error);
+};
@@ -0,0 +1,67 @@
+/**
+ * Backend-neutral description of how the feed is filtered and ordered.
+ * Each data source turns it into its own queries.
+ */
+
+export type FeedSort = "newest" | "value" | "rarest";
+
+export type DateRange = "week" | "month" | "year";
+
+export interface FeedFilters {
+  /** Rarity tier names, e.g. "Rare"; any of them matches. */
+  rarities?: string[];
+  /** Valuation categories; any of them matches. */
+  categories?: string[];
+  /** Only appraisals made within this period. */
+  dateRange?: DateRange;
+  /** Only appraisals by this user document. */
+  appraiserId?: string;
+}
+
+export interface FeedQuery {
+  filters?: FeedFilters;
+  sort?: FeedSort;
+}
+
+export const SORT_OPTIONS: { value: FeedSort; label: string }[] = [
+  { value: "newest", label: "Newest" },
+  { value: "value", label: "Highest value" },
+  { value: "rarest", label: "Rarest" },
+];
+
+export const DATE_RANGE_OPTIONS: { value: DateRange; label: string; days: number }[] = [
+  { value: "week", label: "Past week", days: 7 },
+  { value: "month", label: "Past month", days: 30 },
+  { value: "year", label: "Past year", days: 365 },
+];
+
+/** The earliest creation time `range` allows, as an ISO timestamp. */
+export const dateRangeStart = (range: DateRange, now = new Date()) => {
+  const { days } = DATE_RANGE_OPTIONS.find((option) => option.value === range)!;
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+};
+
+/** Number of filters that narrow the feed, for badges. */
+export const countActiveFilters = ({ rarities, categories, dateRange, appraiserId }: FeedFilters) =>
+  [rarities?.length, categories?.length, dateRange, appraiserId].filter(Boolean).length;
+
+/** What {@link matchesFeedFilters} needs to know about an appraisal. */
+interface Filterable {
+  $createdAt: string;
+  rarity: string;
+  category: string;
+  appraiser: { $id: string };
+}
+
+/**
+ * Whether an appraisal passes `filters`, for backends and updates that are
+ * filtered on the device rather than by a query.
+ */
+export const matchesFeedFilters = ({ rarities, categories, dateRange, appraiserId }: FeedFilters = {}) => {
+  const since = dateRange && dateRangeStart(dateRange);
+  return (appraisal: Filterable) =>
+    (!rarities?.length || rarities.includes(appraisal.rarity)) &&
+    (!categories?.length || categories.includes(appraisal.category)) &&
+    (!since || appraisal.$createdAt >= since) &&
+    (!appraiserId || appraisal.appraiser.$id === appraiserId);
+};
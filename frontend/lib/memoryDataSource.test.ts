@@ -0,0 +1,230 @@
+import { getDataSource } from "@/lib/dataSource";
+import { createMemoryDataSource } from "@/lib/memoryDataSource";
+import { valuate } from "@/lib/valuation";
+import {
+  CancelledError,
+  InvalidCredentialsError,
+  InvalidTokenError,
+  UnauthorizedError,
+  UserAlreadyExistsError,
+  ValidationError,
+} from "@/lib/errors";
+import { onUnauthorized } from "@/lib/sessionEvents";
+
+const DEMO = { email: "demo@appraisal.dev", password: "password123" };
+
+describe("getDataSource", () => {
+  it("uses the seeded memory data source under jest", async () => {
+    const dataSource = getDataSource();
+    await dataSource.signIn(DEMO.email, DEMO.password);
+    expect(await dataSource.getCurrentUser()).toMatchObject({ username: "demo" });
+  });
+});
+
+describe("auth", () => {
+  it("starts signed out", async () => {
+    expect(await createMemoryDataSource().getCurrentUser()).toBeNull();
+  });
+
+  it("signs a new user up and in", async () => {
+    const dataSource = createMemoryDataSource();
+    const user = await dataSource.createUser("new@example.com", "hunter2hunter2", "newbie");
+
+    expect(user).toMatchObject({ email: "new@example.com", username: "newbie" });
+    expect(await dataSource.getCurrentUser()).toMatchObject({ $id: user.$id });
+  });
+
+  it("signs in with the email it signed up with, whatever its case", async () => {
+    const dataSource = createMemoryDataSource();
+    await dataSource.createUser("User@Example.com", "hunter2hunter2", "someone");
+    await dataSource.signOut();
+
+    await dataSource.signIn(" User@Example.com ", "hunter2hunter2");
+    expect(await dataSource.getCurrentUser()).toMatchObject({ username: "someone" });
+  });
+
+  it("stores the email and username trimmed and lower-cased", async () => {
+    const dataSource = createMemoryDataSource();
+    const user = await dataSource.createUser(" New@Example.com ", "hunter2hunter2", "NewBie");
+
+    expect(user).toMatchObject({ email: "new@example.com", username: "newbie" });
+    expect(await dataSource.isUsernameAvailable("NEWBIE")).toBe(false);
+  });
+
+  it("rejects a taken username in any case, and a taken email", async () => {
+    const dataSource = createMemoryDataSource();
+    await expect(
+      dataSource.createUser("other@example.com", "hunter2hunter2", "Demo")
+    ).rejects.toBeInstanceOf(ValidationError);
+    await expect(
+      dataSource.createUser(DEMO.email, "hunter2hunter2", "someone")
+    ).rejects.toBeInstanceOf(UserAlreadyExistsError);
+  });
+
+  it("rejects a wrong password", async () => {
+    const dataSource = createMemoryDataSource();
+    await expect(dataSource.signIn(DEMO.email, "wrong")).rejects.toBeInstanceOf(
+      InvalidCredentialsError
+    );
+    expect(await dataSource.getCurrentUser()).toBeNull();
+  });
+
+  it("reports a lost session to onUnauthorized listeners", async () => {
+    const dataSource = createMemoryDataSource();
+    const listener = jest.fn();
+    const unsubscribe = onUnauthorized(listener);
+    await dataSource.signIn(DEMO.email, DEMO.password);
+    await dataSource.signOut();
+
+    await expect(dataSource.listSessions()).rejects.toBeInstanceOf(UnauthorizedError);
+    expect(listener).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+
+  it("signs out", async () => {
+    const dataSource = createMemoryDataSource();
+    await dataSource.signIn(DEMO.email, DEMO.password);
+    await dataSource.signOut();
+    expect(await dataSource.getCurrentUser()).toBeNull();
+  });
+});
+
+describe("emailed links", () => {
+  // The memory data source logs the link it would have emailed.
+  const lastLinkSecret = (log: jest.SpyInstance) => {
+    const url = new URL(log.mock.calls[log.mock.calls.length - 1][0]);
+    return {
+      userId: url.searchParams.get("userId") ?? "",
+      secret: url.searchParams.get("secret") ?? "",
+    };
+  };
+
+  let log: jest.SpyInstance;
+  beforeEach(() => {
+    log = jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+  afterEach(() => log.mockRestore());
+
+  it("resets a password once per link", async () => {
+    const dataSource = createMemoryDataSource();
+    await dataSource.requestPasswordRecovery(DEMO.email);
+    const { userId, secret } = lastLinkSecret(log);
+
+    await dataSource.resetPassword(userId, secret, "correct horse 9");
+    await dataSource.signIn(DEMO.email, "correct horse 9");
+    expect(await dataSource.getCurrentUser()).toMatchObject({ username: "demo" });
+    await expect(dataSource.resetPassword(userId, secret, "another one 9")).rejects.toBeInstanceOf(
+      InvalidTokenError
+    );
+  });
+
+  it("verifies an email from a link opened signed out", async () => {
+    const dataSource = createMemoryDataSource();
+    const user = await dataSource.createUser("new@example.com", "hunter2hunter2", "newbie");
+    expect(user.emailVerification).toBe(false);
+    await dataSource.sendVerificationEmail();
+    const { userId, secret } = lastLinkSecret(log);
+    await dataSource.signOut();
+
+    await dataSource.confirmEmailVerification(userId, secret);
+    await dataSource.signIn("new@example.com", "hunter2hunter2");
+    expect(await dataSource.getCurrentUser()).toMatchObject({ emailVerification: true });
+  });
+});
+
+describe("appraisals", () => {
+  it("lists the seeded appraisals newest first", async () => {
+    const { documents, nextCursor } = await createMemoryDataSource().getAllPosts();
+
+    expect(documents.map(({ objectName }) => objectName)).toEqual(["teddy bear", "vase", "clock"]);
+    expect(documents[0].appraiser).toMatchObject({ username: "demo" });
+    expect(nextCursor).toBeNull();
+  });
+
+  it("pages through the feed newest first", async () => {
+    const dataSource = createMemoryDataSource();
+    const first = await dataSource.getAllPosts({ limit: 2 });
+    const second = await dataSource.getAllPosts({ limit: 2, cursor: first.nextCursor });
+
+    expect(first.documents.map(({ objectName }) => objectName)).toEqual(["teddy bear", "vase"]);
+    expect(second.documents.map(({ objectName }) => objectName)).toEqual(["clock"]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("rejects an unknown cursor", async () => {
+    const dataSource = createMemoryDataSource();
+    await expect(dataSource.getAllPosts({ cursor: "missing" })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+  });
+
+  it("sorts by value", async () => {
+    const dataSource = createMemoryDataSource();
+    const { documents } = await dataSource.getAllPosts({}, { sort: "value" });
+    const values = documents.map(({ estimatedValueMax }) => estimatedValueMax);
+    expect(values).toEqual([...values].sort((a, b) => b - a));
+  });
+
+  it("filters by category", async () => {
+    const dataSource = createMemoryDataSource();
+    const { documents } = await dataSource.getAllPosts({}, { filters: { categories: ["Toys"] } });
+    expect(documents.map(({ objectName }) => objectName)).toEqual(["teddy bear"]);
+  });
+
+  it("searches names and descriptions, and matches nothing for a blank query", async () => {
+    const dataSource = createMemoryDataSource();
+    const { documents } = await dataSource.searchPosts("Teddy");
+
+    expect(documents.map(({ objectName }) => objectName)).toEqual(["teddy bear"]);
+    expect((await dataSource.searchPosts("  ")).documents).toEqual([]);
+  });
+
+  it("stops summarizing once its signal is aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      createMemoryDataSource().getUserStats("demo-user", { signal: controller.signal })
+    ).rejects.toBeInstanceOf(CancelledError);
+  });
+
+  it("saves an appraisal under its appraiser", async () => {
+    const dataSource = createMemoryDataSource();
+    const saved = await dataSource.createAppraisal(
+      { uri: "file:///photo.jpg" },
+      valuate("clock"),
+      "demo-user"
+    );
+
+    expect(saved).toMatchObject({ objectName: "clock", objectImage: "file:///photo.jpg" });
+    expect((await dataSource.getUserPosts("demo-user")).documents[0].$id).toBe(saved.$id);
+  });
+
+  it("saves an appraisal only once per idempotency key", async () => {
+    const dataSource = createMemoryDataSource();
+    const save = () =>
+      dataSource.createAppraisal({ uri: "file:///photo.jpg" }, valuate("clock"), "demo-user", {
+        idempotencyKey: "retry-me",
+      });
+    const first = await save();
+    const second = await save();
+
+    expect(second).toEqual(first);
+    const { documents } = await dataSource.getUserPosts("demo-user");
+    expect(documents.filter(({ $id }) => $id === "retry-me")).toHaveLength(1);
+  });
+
+  it("tells subscribers about new appraisals", async () => {
+    const dataSource = createMemoryDataSource();
+    const listener = jest.fn();
+    const unsubscribe = dataSource.subscribeToAppraisals(listener);
+    const saved = await dataSource.createAppraisal(
+      { uri: "file:///photo.jpg" },
+      valuate("clock"),
+      "demo-user"
+    );
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ type: "create", appraisal: saved });
+  });
+});
@@ -0,0 +1,407 @@
+import { Image } from "react-native";
+import type { Models } from "react-native-appwrite";
+import {
+  AppraisalEvent,
+  DataSource,
+  DEFAULT_PAGE_SIZE,
+  Page,
+  PageRequest,
+  RESET_PASSWORD_URL,
+  VERIFY_EMAIL_URL,
+} from "@/lib/dataSource";
+import { AppraisalDocumentData, toAppraisalDocument, valuate } from "@/lib/valuation";
+import { parseAppraisal, parseEach, parseUser, User } from "@/lib/models";
+import { notifyUnauthorized } from "@/lib/sessionEvents";
+import {
+  CancelledError,
+  InvalidCredentialsError,
+  InvalidTokenError,
+  NotFoundError,
+  UnauthorizedError,
+  UserAlreadyExistsError,
+  ValidationError,
+} from "@/lib/errors";
+import { summarizeAppraisals } from "@/lib/appraisalStats";
+import {
+  normalizeEmail,
+  normalizeSignUp,
+  normalizeUsername,
+  suggestUsername,
+  usernameTakenError,
+  validatePassword,
+  validateSignUp,
+} from "@/lib/validation";
+import { FeedSort, matchesFeedFilters } from "@/lib/feedQuery";
+import cards from "../assets/images/cards.png";
+import logo from "../assets/images/logo.png";
+
+const DATABASE_ID = "memory";
+const USER_COLLECTION_ID = "users";
+const APPRAISED_COLLECTION_ID = "appraised";
+
+// Stored the way Appwrite would return them, and parsed on the way out
+// exactly like the Appwrite data source does.
+type UserDocument = Models.Document & Omit<User, "$id" | "$createdAt" | "emailVerification">;
+type AppraisalDocument = Models.Document &
+  Omit<AppraisalDocumentData, "appraiser"> & { appraiser: UserDocument };
+
+interface MemoryAccount {
+  $id: string;
+  email: string;
+  password: string;
+  emailVerification?: boolean;
+}
+
+/** A recovery or verification secret, as emailed in a link. */
+interface MemoryToken {
+  kind: "recovery" | "verification";
+  userId: string;
+  secret: string;
+  expire: number;
+}
+
+// Appwrite's recovery links last an hour and verification links a week.
+const TOKEN_TTL = {
+  recovery: 60 * 60 * 1000,
+  verification: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** Seed data for {@link createMemoryDataSource}. */
+export interface MemorySeed {
+  accounts: MemoryAccount[];
+  users: UserDocument[];
+  appraisals: AppraisalDocument[];
+}
+
+type Comparator<T> = (a: T, b: T) => number;
+
+const newestFirst: Comparator<{ $createdAt: string }> = (a, b) =>
+  b.$createdAt.localeCompare(a.$createdAt);
+
+/** Mirrors Appwrite's `orderDesc`, `limit` and `cursorAfter` queries. */
+const paginate = <T extends { $id: string; $createdAt: string }>(
+  documents: T[],
+  { limit = DEFAULT_PAGE_SIZE, cursor }: PageRequest,
+  compare: Comparator<T> = newestFirst
+): Page<T> => {
+  const ordered = [...documents].sort(compare);
+  const after = cursor ? ordered.findIndex((document) => document.$id === cursor) : -1;
+  if (cursor && after < 0) {
+    throw new ValidationError(`Invalid cursor: ${cursor}`);
+  }
+  const page = ordered.slice(after + 1, after + 1 + limit);
+  const hasMore = after + 1 + limit < ordered.length;
+  return { documents: page, nextCursor: hasMore ? page[page.length - 1].$id : null };
+};
+
+const orderedBy = (sort: FeedSort = "newest"): Comparator<AppraisalDocument> => {
+  switch (sort) {
+    case "value":
+      return (a, b) => b.estimatedValueMax - a.estimatedValueMax || newestFirst(a, b);
+    case "rarest":
+      return (a, b) => b.rarityRank - a.rarityRank || newestFirst(a, b);
+    default:
+      return newestFirst;
+  }
+};
+
+const parsePage = (page: Page<unknown>) => ({
+  ...page,
+  documents: parseEach(page.documents, parseAppraisal),
+});
+
+let counter = 0;
+const uniqueId = () => `mem${Date.now().toString(36)}${(counter++).toString(36)}`;
+
+const documentMeta = (collectionId: string, $id = uniqueId(), at = new Date()) => ({
+  $id,
+  $collectionId: collectionId,
+  $databaseId: DATABASE_ID,
+  $createdAt: at.toISOString(),
+  $updatedAt: at.toISOString(),
+  $permissions: [],
+});
+
+const makeSession = (userId: string): Models.Session => {
+  const now = new Date();
+  return {
+    $id: uniqueId(),
+    $createdAt: now.toISOString(),
+    $updatedAt: now.toISOString(),
+    userId,
+    expire: new Date(now.getTime() + 365 * 24 * 60 * 60 * 1000).toISOString(),
+    provider: "email",
+    providerUid: "",
+    providerAccessToken: "",
+    providerAccessTokenExpiry: "",
+    providerRefreshToken: "",
+    ip: "127.0.0.1",
+    osCode: "",
+    osName: "",
+    osVersion: "",
+    clientType: "",
+    clientCode: "",
+    clientName: "Appraisal (offline)",
+    clientVersion: "",
+    clientEngine: "",
+    clientEngineVersion: "",
+    deviceName: "",
+    deviceBrand: "",
+    deviceModel: "",
+    countryCode: "",
+    countryName: "",
+    current: true,
+    factors: ["password"],
+    secret: "",
+    mfaUpdatedAt: "",
+  };
+};
+
+/**
+ * A demo account, `demo@appraisal.dev` / `password123`, with a few
+ * appraisals, so the app has something to show offline.
+ */
+export const createDefaultSeed = (): MemorySeed => {
+  const avatar = Image.resolveAssetSource(logo)?.uri ?? "";
+  const photo = Image.resolveAssetSource(cards)?.uri ?? "";
+  const account = {
+    $id: "demo-account",
+    email: "demo@appraisal.dev",
+    password: "password123",
+    emailVerification: true,
+  };
+  const user: UserDocument = {
+    ...documentMeta(USER_COLLECTION_ID, "demo-user"),
+    accountId: account.$id,
+    email: account.email,
+    username: "demo",
+    avatar,
+  };
+
+  const appraisals = ["clock", "vase", "teddy bear"].map((label, i) => ({
+    ...documentMeta(
+      APPRAISED_COLLECTION_ID,
+      `demo-appraisal-${i}`,
+      new Date(Date.UTC(2025, 0, 1 + i))
+    ),
+    ...toAppraisalDocument(valuate(label), { objectImage: photo, appraiser: user.$id }),
+    appraiser: user,
+  }));
+
+  return { accounts: [account], users: [user], appraisals };
+};
+
+/**
+ * A data source that keeps everything in memory, for running the app
+ * offline in development and in jest. State resets on every launch.
+ */
+export const createMemoryDataSource = (seed: MemorySeed = createDefaultSeed()): DataSource => {
+  const accounts = [...seed.accounts];
+  const users = [...seed.users];
+  const appraisals = [...seed.appraisals];
+  let sessions: Models.Session[] = [];
+  let currentSessionId: string | null = null;
+  const subscribers = new Set<(event: AppraisalEvent) => void>();
+  let tokens: MemoryToken[] = [];
+
+  // There's no mail server, so the link is logged for opening by hand.
+  const sendLink = (kind: MemoryToken["kind"], userId: string, url: string) => {
+    const token = { kind, userId, secret: uniqueId(), expire: Date.now() + TOKEN_TTL[kind] };
+    tokens.push(token);
+    const expire = new Date(token.expire).toISOString();
+    console.log(`${url}?userId=${userId}&secret=${token.secret}&expire=${expire}`);
+  };
+
+  const redeem = (kind: MemoryToken["kind"], userId: string, secret: string) => {
+    const token = tokens.find(
+      (candidate) =>
+        candidate.kind === kind && candidate.userId === userId && candidate.secret === secret
+    );
+    if (!token || token.expire < Date.now()) throw new InvalidTokenError();
+    tokens = tokens.filter((candidate) => candidate !== token);
+    return accounts.find(({ $id }) => $id === userId)!;
+  };
+
+  const toUser = (user: UserDocument) => {
+    const account = accounts.find(({ $id }) => $id === user.accountId);
+    return parseUser({ ...user, emailVerification: account?.emailVerification ?? false });
+  };
+
+  // Whatever the case either was stored or asked in, like Appwrite's `usernameKey`.
+  const isUsernameAvailable = (username: string) =>
+    !users.some((user) => normalizeUsername(user.username) === normalizeUsername(username));
+
+  const createUserDocument = (accountId: string, email: string, username: string) => {
+    const user: UserDocument = {
+      ...documentMeta(USER_COLLECTION_ID),
+      accountId,
+      email,
+      username,
+      avatar: "",
+    };
+    users.push(user);
+    return user;
+  };
+
+  const currentSession = () => sessions.find((session) => session.$id === currentSessionId);
+
+  const requireSession = () => {
+    const session = currentSession();
+    if (!session) {
+      notifyUnauthorized();
+      throw new UnauthorizedError();
+    }
+    return session;
+  };
+
+  const signIn: DataSource["signIn"] = async (email, password) => {
+    const account = accounts.find((candidate) => candidate.email === normalizeEmail(email));
+    if (!account || account.password !== password) throw new InvalidCredentialsError();
+    const session = makeSession(account.$id);
+    sessions.push(session);
+    currentSessionId = session.$id;
+    return session;
+  };
+
+  return {
+    async createUser(email, password, username) {
+      const form = normalizeSignUp({ email, password, username });
+      const issues = validateSignUp(form);
+      if (issues.length) throw new ValidationError(issues[0].message, issues);
+      if (!isUsernameAvailable(form.username)) throw usernameTakenError();
+      if (accounts.some((account) => account.email === form.email)) {
+        throw new UserAlreadyExistsError();
+      }
+      const account = { $id: uniqueId(), email: form.email, password: form.password };
+      accounts.push(account);
+      await signIn(form.email, form.password);
+      return toUser(createUserDocument(account.$id, form.email, form.username));
+    },
+
+    async isUsernameAvailable(username) {
+      return isUsernameAvailable(username);
+    },
+
+    signIn,
+
+    async getCurrentUser() {
+      const session = currentSession();
+      if (!session) return null;
+      const user = users.find(({ accountId }) => accountId === session.userId);
+      if (user) return toUser(user);
+
+      // Mirrors the Appwrite repair of an account left without a profile.
+      const account = accounts.find(({ $id }) => $id === session.userId)!;
+      let name = suggestUsername("", account.email);
+      if (!isUsernameAvailable(name)) name = `${name}_${account.$id.slice(-4)}`;
+      return toUser(createUserDocument(account.$id, account.email, name));
+    },
+
+    async signOut() {
+      requireSession();
+      sessions = sessions.filter((session) => session.$id !== currentSessionId);
+      currentSessionId = null;
+    },
+
+    async signOutEverywhere() {
+      const session = requireSession();
+      sessions = sessions.filter(({ userId }) => userId !== session.userId);
+      currentSessionId = null;
+    },
+
+    async listSessions() {
+      const session = requireSession();
+      return sessions
+        .filter(({ userId }) => userId === session.userId)
+        .map((other) => ({ ...other, current: other.$id === session.$id }));
+    },
+
+    async revokeSession(sessionId) {
+      const session = requireSession();
+      const target = sessions.find((other) => other.$id === sessionId);
+      if (target?.userId !== session.userId) {
+        throw new NotFoundError("Session not found");
+      }
+      sessions = sessions.filter((other) => other.$id !== sessionId);
+      if (sessionId === currentSessionId) currentSessionId = null;
+    },
+
+    async requestPasswordRecovery(email) {
+      const account = accounts.find((candidate) => candidate.email === normalizeEmail(email));
+      if (account) sendLink("recovery", account.$id, RESET_PASSWORD_URL);
+    },
+
+    async resetPassword(userId, secret, password) {
+      const issue = validatePassword(password);
+      if (issue) throw new ValidationError(issue, [{ field: "password", message: issue }]);
+      redeem("recovery", userId, secret).password = password;
+    },
+
+    async sendVerificationEmail() {
+      const session = requireSession();
+      sendLink("verification", session.userId, VERIFY_EMAIL_URL);
+    },
+
+    // Public in Appwrite too: the link may be opened signed out, or on
+    // another device.
+    async confirmEmailVerification(userId, secret) {
+      redeem("verification", userId, secret).emailVerification = true;
+    },
+
+    async getAllPosts(page = {}, { filters, sort } = {}) {
+      return parsePage(
+        paginate(appraisals.filter(matchesFeedFilters(filters)), page, orderedBy(sort))
+      );
+    },
+
+    async getUserPosts(userId, page = {}) {
+      return parsePage(
+        paginate(appraisals.filter(matchesFeedFilters({ appraiserId: userId })), page)
+      );
+    },
+
+    async getUserStats(userId, { signal } = {}) {
+      if (signal?.aborted) throw new CancelledError();
+      const mine = appraisals.filter(matchesFeedFilters({ appraiserId: userId }));
+      return summarizeAppraisals(parseEach(mine, parseAppraisal));
+    },
+
+    async searchPosts(query, page = {}) {
+      // Appwrite's fulltext search matches whole words; a substring match is close enough here.
+      const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+      const matches = appraisals.filter((appraisal) => {
+        const text = `${appraisal.objectName} ${appraisal.description}`.toLowerCase();
+        return words.some((word) => text.includes(word));
+      });
+      return parsePage(paginate(matches, page));
+    },
+
+    async createAppraisal(image, valuation, appraiserId, { idempotencyKey } = {}) {
+      const existing = idempotencyKey && appraisals.find(({ $id }) => $id === idempotencyKey);
+      if (existing) return parseAppraisal(existing);
+
+      const appraiser = users.find((user) => user.$id === appraiserId);
+      if (!appraiser) throw new ValidationError("Unknown appraiser");
+      const appraisal: AppraisalDocument = {
+        ...documentMeta(APPRAISED_COLLECTION_ID, idempotencyKey),
+        ...toAppraisalDocument(valuation, { objectImage: image.uri, appraiser: appraiserId }),
+        appraiser,
+      };
+      appraisals.push(appraisal);
+      const parsed = parseAppraisal(appraisal);
+      subscribers.forEach((listener) => listener({ type: "create", appraisal: parsed }));
+      return parsed;
+    },
+
+    // Images aren't uploaded here: appraisals keep their local uri.
+    async deleteAppraisalUpload() {},
+
+    // Nothing to reconnect: events are delivered in-process.
+    subscribeToAppraisals(listener) {
+      subscribers.add(listener);
+      return () => {
+        subscribers.delete(listener);
+      };
+    },
+  };
+};
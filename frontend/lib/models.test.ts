@@ -0,0 +1,142 @@
+import { onHandledError } from "@/lib/errorReports";
+import { InvalidDocumentError, parseAppraisal, parseEach, parseUser } from "@/lib/models";
+
+const userDocument = (overrides: Record<string, unknown> = {}) => ({
+  $id: "user-1",
+  $createdAt: "2025-01-01T00:00:00.000Z",
+  accountId: "account-1",
+  email: "demo@appraisal.dev",
+  username: "demo",
+  avatar: "https://example.com/avatar.png",
+  ...overrides,
+});
+
+const appraisalDocument = (overrides: Record<string, unknown> = {}) => ({
+  $id: "appraisal-1",
+  $createdAt: "2025-01-02T00:00:00.000Z",
+  objectName: "clock",
+  objectImage: "https://example.com/clock.jpg",
+  description: "A clock.",
+  rarity: "Rare",
+  rarityRank: 3,
+  category: "Timepieces",
+  estimatedValueMin: 40,
+  estimatedValueMax: 1500,
+  currency: "USD",
+  rulesVersion: 1,
+  appraiser: userDocument(),
+  ...overrides,
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const issuesOf = (parse: () => unknown) => {
+  try {
+    parse();
+  } catch (error) {
+    if (error instanceof InvalidDocumentError) return error.issues;
+    throw error;
+  }
+  throw new Error("expected an InvalidDocumentError");
+};
+
+describe("parseUser", () => {
+  it("reads a valid document", () => {
+    expect(parseUser(userDocument())).toEqual({ ...userDocument(), emailVerification: false });
+  });
+
+  it("lists every missing field", () => {
+    const { email, username, ...rest } = userDocument();
+    expect(issuesOf(() => parseUser(rest))).toEqual([
+      { field: "email", message: "is missing" },
+      { field: "username", message: "is missing" },
+    ]);
+  });
+
+  it("rejects fields of the wrong type", () => {
+    expect(issuesOf(() => parseUser(userDocument({ username: 42 })))).toEqual([
+      { field: "username", message: "must be a string" },
+    ]);
+  });
+
+  it("rejects something that isn't an object", () => {
+    expect(() => parseUser(["user-1"])).toThrow(InvalidDocumentError);
+  });
+});
+
+describe("parseAppraisal", () => {
+  it("reads a valid document with its appraiser", () => {
+    expect(parseAppraisal(appraisalDocument())).toMatchObject({
+      $id: "appraisal-1",
+      estimatedValueMax: 1500,
+      appraiser: { $id: "user-1", username: "demo" },
+    });
+  });
+
+  it("fills in fields older appraisals don't have", () => {
+    const {
+      rarityRank,
+      category,
+      estimatedValueMin,
+      estimatedValueMax,
+      currency,
+      rulesVersion,
+      ...old
+    } = appraisalDocument();
+
+    expect(parseAppraisal(old)).toMatchObject({
+      rarityRank: 3,
+      category: "Miscellaneous",
+      estimatedValueMin: 0,
+      estimatedValueMax: 0,
+      currency: "USD",
+      rulesVersion: 0,
+    });
+  });
+
+  it("prefixes the appraiser's issues and rejects non-finite numbers", () => {
+    const raw = appraisalDocument({
+      estimatedValueMax: Number.NaN,
+      appraiser: { $id: "user-1" },
+    });
+    expect(issuesOf(() => parseAppraisal(raw))).toEqual([
+      { field: "appraiser.username", message: "is missing" },
+      { field: "estimatedValueMax", message: "must be a number" },
+    ]);
+  });
+
+  it("needs an expanded appraiser", () => {
+    expect(issuesOf(() => parseAppraisal(appraisalDocument({ appraiser: "user-1" })))).toEqual([
+      { field: "appraiser", message: "is missing" },
+    ]);
+  });
+});
+
+describe("parseEach", () => {
+  it("skips invalid documents and reports them", () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    const reported = jest.fn();
+    const stop = onHandledError(reported);
+
+    const users = parseEach(
+      [userDocument(), userDocument({ $id: "user-2", email: null })],
+      parseUser
+    );
+    stop();
+
+    expect(users.map(({ $id }) => $id)).toEqual(["user-1"]);
+    expect(reported).toHaveBeenCalledTimes(1);
+    expect(reported.mock.calls[0][0]).toBeInstanceOf(InvalidDocumentError);
+    expect(reported.mock.calls[0][0].documentId).toBe("user-2");
+  });
+
+  it("lets other errors through", () => {
+    expect(() =>
+      parseEach([1], () => {
+        throw new TypeError("boom");
+      })
+    ).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,173 @@
+import { DEFAULT_VALUATION_RULES } from "@/lib/valuation";
+import { reportHandledError } from "@/lib/errorReports";
+
+/** A signed-up user, from the user collection. */
+export interface User {
+  $id: string;
+  $createdAt: string;
+  accountId: string;
+  email: string;
+  username: string;
+  avatar: string;
+  /** Whether the account's email address has been confirmed. */
+  emailVerification: boolean;
+}
+
+/** The part of a user shown next to their appraisals. */
+export type Appraiser = Pick<User, "$id" | "username" | "avatar">;
+
+/** A saved appraisal, from the appraised collection. */
+export interface Appraisal {
+  $id: string;
+  $createdAt: string;
+  objectName: string;
+  objectImage: string;
+  description: string;
+  rarity: string;
+  rarityRank: number;
+  category: string;
+  estimatedValueMin: number;
+  estimatedValueMax: number;
+  currency: string;
+  rulesVersion: number;
+  appraiser: Appraiser;
+}
+
+export interface FieldIssue {
+  field: string;
+  message: string;
+}
+
+/** Thrown when a document from the backend doesn't match its model. */
+export class InvalidDocumentError extends Error {
+  constructor(
+    readonly model: string,
+    readonly documentId: string | undefined,
+    readonly issues: FieldIssue[]
+  ) {
+    super(
+      `Invalid ${model} ${documentId ?? "(no id)"}: ` +
+        issues.map(({ field, message }) => `${field} ${message}`).join(", ")
+    );
+    this.name = "InvalidDocumentError";
+  }
+}
+
+type Raw = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Raw =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Reads typed fields off an untrusted object, collecting an issue for each
+ * one that's missing or has the wrong type instead of stopping at the first.
+ */
+const createReader = (raw: Raw, issues: FieldIssue[], prefix = "") => {
+  const read = <T>(field: string, type: "string" | "number" | "boolean", fallback?: T) => {
+    const value = raw[field];
+    if (value === undefined || value === null) {
+      if (fallback !== undefined) return fallback;
+      issues.push({ field: prefix + field, message: "is missing" });
+    } else if (typeof value !== type || (type === "number" && !Number.isFinite(value))) {
+      issues.push({ field: prefix + field, message: `must be a ${type}` });
+    } else {
+      return value as T;
+    }
+    return undefined as T;
+  };
+  return {
+    string: (field: string, fallback?: string) => read<string>(field, "string", fallback),
+    number: (field: string, fallback?: number) => read<number>(field, "number", fallback),
+    boolean: (field: string, fallback?: boolean) => read<boolean>(field, "boolean", fallback),
+  };
+};
+
+const idOf = (raw: unknown) =>
+  isObject(raw) && typeof raw.$id === "string" ? raw.$id : undefined;
+
+/** Validates a user document. Throws {@link InvalidDocumentError}. */
+export function parseUser(raw: unknown): User {
+  if (!isObject(raw)) {
+    throw new InvalidDocumentError("user", undefined, [{ field: "", message: "must be an object" }]);
+  }
+  const issues: FieldIssue[] = [];
+  const field = createReader(raw, issues);
+  const user: User = {
+    $id: field.string("$id"),
+    $createdAt: field.string("$createdAt"),
+    accountId: field.string("accountId"),
+    email: field.string("email"),
+    username: field.string("username"),
+    avatar: field.string("avatar", ""),
+    // Lives on the account rather than the document; the data sources copy it over.
+    emailVerification: field.boolean("emailVerification", false),
+  };
+  if (issues.length) throw new InvalidDocumentError("user", idOf(raw), issues);
+  return user;
+}
+
+const rankOf = (rarity: string) =>
+  DEFAULT_VALUATION_RULES.tiers.find(({ name }) => name === rarity)?.rank ?? 0;
+
+/**
+ * Validates an appraisal document with its appraiser expanded. Throws
+ * {@link InvalidDocumentError}. Fields added after the first release get
+ * defaults, so older appraisals still load.
+ */
+export function parseAppraisal(raw: unknown): Appraisal {
+  if (!isObject(raw)) {
+    throw new InvalidDocumentError("appraisal", undefined, [
+      { field: "", message: "must be an object" },
+    ]);
+  }
+  const issues: FieldIssue[] = [];
+  const field = createReader(raw, issues);
+
+  let appraiser = { $id: "", username: "", avatar: "" };
+  if (isObject(raw.appraiser)) {
+    const appraiserField = createReader(raw.appraiser, issues, "appraiser.");
+    appraiser = {
+      $id: appraiserField.string("$id"),
+      username: appraiserField.string("username"),
+      avatar: appraiserField.string("avatar", ""),
+    };
+  } else {
+    issues.push({ field: "appraiser", message: "is missing" });
+  }
+
+  const rarity = field.string("rarity");
+  const appraisal: Appraisal = {
+    $id: field.string("$id"),
+    $createdAt: field.string("$createdAt"),
+    objectName: field.string("objectName"),
+    objectImage: field.string("objectImage"),
+    description: field.string("description", ""),
+    rarity,
+    rarityRank: field.number("rarityRank", rankOf(rarity)),
+    category: field.string("category", DEFAULT_VALUATION_RULES.fallback.category),
+    estimatedValueMin: field.number("estimatedValueMin", 0),
+    estimatedValueMax: field.number("estimatedValueMax", 0),
+    currency: field.string("currency", DEFAULT_VALUATION_RULES.currency),
+    rulesVersion: field.number("rulesVersion", 0),
+    appraiser,
+  };
+  if (issues.length) throw new InvalidDocumentError("appraisal", idOf(raw), issues);
+  return appraisal;
+}
+
+/**
+ * Parses a list of documents, reporting and skipping the invalid ones so a
+ * single bad document can't take down a whole list.
+ */
+export function parseEach<T>(documents: unknown[], parse: (raw: unknown) => T): T[] {
+  const parsed: T[] = [];
+  for (const document of documents) {
+    try {
+      parsed.push(parse(document));
+    } catch (error) {
+      if (!(error instanceof InvalidDocumentError)) throw error;
+      reportHandledError(error);
+    }
+  }
+  return parsed;
+}
@@ -0,0 +1,142 @@
+import { valuate } from "@/lib/valuation";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+jest.mock("react-native-fs", () => ({
+  DocumentDirectoryPath: "/documents",
+  mkdir: jest.fn(async () => undefined),
+  copyFile: jest.fn(async () => undefined),
+  unlink: jest.fn(async () => undefined),
+}));
+jest.mock("@/lib/dataSource", () => ({
+  createAppraisal: jest.fn(),
+  deleteAppraisalUpload: jest.fn(async () => undefined),
+}));
+
+// The outbox keeps its entries in module state, so every test loads it afresh.
+let outbox: typeof import("@/lib/outbox");
+let dataSource: jest.Mocked<typeof import("@/lib/dataSource")>;
+let errors: typeof import("@/lib/errors");
+let RNFS: jest.Mocked<typeof import("react-native-fs")>;
+
+let now: number;
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+const enqueue = () =>
+  outbox.enqueueAppraisal("file:///cache/photo.jpg", valuate("clock"), "demo-user");
+const entry = (id: string) => outbox.getOutbox().find((candidate) => candidate.id === id);
+
+beforeEach(() => {
+  jest.resetModules();
+  outbox = require("@/lib/outbox");
+  dataSource = require("@/lib/dataSource");
+  errors = require("@/lib/errors");
+  RNFS = require("react-native-fs");
+  now = 1_000_000;
+  jest.spyOn(Date, "now").mockImplementation(() => now);
+  // Takes the jitter out of the backoff: each delay is 3/4 of its cap.
+  jest.spyOn(Math, "random").mockReturnValue(0.5);
+});
+
+afterEach(() => {
+  outbox.stopOutbox();
+  jest.restoreAllMocks();
+});
+
+describe("outbox", () => {
+  it("saves a queued appraisal under its id and forgets it", async () => {
+    const saved = { $id: "saved" };
+    dataSource.createAppraisal.mockResolvedValue(saved as never);
+    outbox.startOutbox("demo-user");
+    const { id } = await enqueue();
+    await flush();
+
+    expect(dataSource.createAppraisal).toHaveBeenCalledWith(
+      { uri: `file:///documents/outbox/${id}.jpg` },
+      expect.objectContaining({ objectName: "clock" }),
+      "demo-user",
+      { idempotencyKey: id }
+    );
+    expect(outbox.getOutbox()).toEqual([]);
+    expect(RNFS.unlink).toHaveBeenCalledWith(`/documents/outbox/${id}.jpg`);
+  });
+
+  it("retries with the same idempotency key", async () => {
+    dataSource.createAppraisal
+      .mockRejectedValueOnce(new errors.RateLimitedError())
+      .mockResolvedValueOnce({ $id: "saved" } as never);
+    outbox.startOutbox("demo-user");
+    const { id } = await enqueue();
+    await flush();
+    now += 3_000;
+    await outbox.processOutbox();
+
+    expect(dataSource.createAppraisal).toHaveBeenCalledTimes(2);
+    for (const [, , , options] of dataSource.createAppraisal.mock.calls) {
+      expect(options).toEqual({ idempotencyKey: id });
+    }
+    expect(outbox.getOutbox()).toEqual([]);
+  });
+
+  it("doubles the delay after each failure and gives up after 8 attempts", async () => {
+    dataSource.createAppraisal.mockRejectedValue(new errors.RateLimitedError());
+    outbox.startOutbox("demo-user");
+    const { id } = await enqueue();
+    await flush();
+
+    const delays = [];
+    while (entry(id)?.status === "pending") {
+      delays.push(entry(id)!.nextAttemptAt - now);
+      now = entry(id)!.nextAttemptAt;
+      await outbox.processOutbox();
+    }
+
+    expect(delays).toEqual([3_000, 6_000, 12_000, 24_000, 48_000, 96_000, 192_000]);
+    expect(entry(id)).toMatchObject({ status: "failed", attempts: 8 });
+    // It can still be retried by hand, so its upload stays.
+    expect(dataSource.deleteAppraisalUpload).not.toHaveBeenCalled();
+  });
+
+  it("waits out a network failure without using up attempts or trying the rest", async () => {
+    dataSource.createAppraisal.mockRejectedValue(new errors.NetworkError());
+    const first = await enqueue();
+    // Ids are made from the time and Math.random, which is mocked.
+    now += 1;
+    const second = await enqueue();
+    outbox.startOutbox("demo-user");
+    await flush();
+
+    expect(dataSource.createAppraisal).toHaveBeenCalledTimes(1);
+    expect(entry(first.id)).toMatchObject({
+      status: "pending",
+      attempts: 0,
+      deferrals: 1,
+      nextAttemptAt: now + 3_000,
+    });
+    expect(entry(second.id)).toMatchObject({ attempts: 0, nextAttemptAt: now });
+  });
+
+  it("stops at a permanent failure and deletes the upload", async () => {
+    dataSource.createAppraisal.mockRejectedValue(new errors.ValidationError("Invalid document"));
+    outbox.startOutbox("demo-user");
+    const { id } = await enqueue();
+    await flush();
+
+    expect(entry(id)).toMatchObject({ status: "failed", lastError: "Invalid document" });
+    expect(dataSource.deleteAppraisalUpload).toHaveBeenCalledWith(id);
+
+    now += 60 * 60 * 1000;
+    await outbox.processOutbox();
+    expect(dataSource.createAppraisal).toHaveBeenCalledTimes(1);
+  });
+
+  it("deletes both copies of the photo when an entry is discarded", async () => {
+    const { id, imageUri } = await enqueue();
+    outbox.discardEntry(id);
+
+    expect(outbox.getOutbox()).toEqual([]);
+    expect(RNFS.unlink).toHaveBeenCalledWith(imageUri.replace("file://", ""));
+    expect(dataSource.deleteAppraisalUpload).toHaveBeenCalledWith(id);
+  });
+});
@@ -0,0 +1,278 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { AppState, NativeEventSubscription } from "react-native";
+import RNFS from "react-native-fs";
+import { createAppraisal, deleteAppraisalUpload } from "@/lib/dataSource";
+import { NetworkError, UnauthorizedError, isPermanentError, toAppError } from "@/lib/errors";
+import { reportHandledError } from "@/lib/errorReports";
+import { Appraisal, Appraiser } from "@/lib/models";
+import { invalidateQueries } from "@/lib/queryCache";
+import { appraisalKeys } from "@/lib/queryKeys";
+import { Valuation, toAppraisalDocument } from "@/lib/valuation";
+
+/**
+ * Appraisals waiting to be saved. Saving goes through here rather than
+ * straight to the data source, so an appraisal made offline (or while the
+ * backend is down) isn't lost: it's kept in AsyncStorage with a copy of its
+ * photo and retried with exponential backoff until it goes through.
+ *
+ * Each entry's id doubles as the idempotency key for `createAppraisal`, so a
+ * retry after a request that succeeded but whose response was lost returns
+ * the saved appraisal instead of saving a duplicate.
+ *
+ * Unlike lib/persistence, the outbox isn't cleared on sign-out: entries
+ * belong to their appraiser and wait until they sign in again.
+ */
+
+export type OutboxStatus = "pending" | "failed";
+
+export interface OutboxEntry {
+  /** Also the idempotency key, and the saved appraisal's id. */
+  id: string;
+  /** The outbox's own copy of the photo. */
+  imageUri: string;
+  valuation: Valuation;
+  appraiserId: string;
+  createdAt: string;
+  attempts: number;
+  /**
+   * Tries that failed because the device was offline or signed out. They
+   * space out retries but don't count towards {@link MAX_ATTEMPTS}.
+   */
+  deferrals?: number;
+  /** When to try again, in ms since the epoch. */
+  nextAttemptAt: number;
+  /** Failed entries are only retried by {@link retryEntry}. */
+  status: OutboxStatus;
+  lastError?: string;
+}
+
+const STORAGE_KEY = "outbox:v1";
+const IMAGE_DIR = `${RNFS.DocumentDirectoryPath}/outbox`;
+
+const MAX_ATTEMPTS = 8;
+const BASE_DELAY = 2_000;
+const MAX_DELAY = 10 * 60 * 1000;
+
+let entries: OutboxEntry[] = [];
+let loading: Promise<void> | null = null;
+let activeUserId: string | null = null;
+let isProcessing = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let appStateSubscription: NativeEventSubscription | null = null;
+const listeners = new Set<() => void>();
+
+// Appwrite ids: at most 36 characters, starting with a letter or digit.
+const createId = () =>
+  Date.now().toString(36) +
+  Array.from({ length: 16 }, () => Math.floor(Math.random() * 36).toString(36)).join("");
+
+/** Doubles with each attempt up to {@link MAX_DELAY}, with jitter so retries don't line up. */
+const backoff = (attempts: number) => {
+  const delay = Math.min(BASE_DELAY * 2 ** attempts, MAX_DELAY);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+const isEntry = (value: unknown): value is OutboxEntry =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as OutboxEntry).id === "string" &&
+  typeof (value as OutboxEntry).imageUri === "string" &&
+  typeof (value as OutboxEntry).appraiserId === "string";
+
+const load = () => {
+  loading ??= (async () => {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      const parsed: unknown = stored ? JSON.parse(stored) : [];
+      entries = Array.isArray(parsed) ? parsed.filter(isEntry) : [];
+    } catch (error) {
+      reportHandledError(error);
+    }
+    listeners.forEach((listener) => listener());
+  })();
+  return loading;
+};
+
+const save = (next: OutboxEntry[]) => {
+  entries = next;
+  listeners.forEach((listener) => listener());
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(entries)).catch(reportHandledError);
+};
+
+const update = (id: string, changes: Partial<OutboxEntry>) =>
+  save(entries.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry)));
+
+const remove = (id: string) => {
+  const entry = entries.find((candidate) => candidate.id === id);
+  save(entries.filter((candidate) => candidate.id !== id));
+  // The copy may already be gone; the OS clears the cache directory anyway.
+  if (entry) RNFS.unlink(entry.imageUri.replace(/^file:\/\//, "")).catch(() => {});
+};
+
+// An attempt may have uploaded the photo under the entry's id before
+// failing. Best effort: a file left behind only costs storage.
+const deleteUpload = (id: string) => deleteAppraisalUpload(id).catch(() => {});
+
+/** Every entry, oldest first. */
+export const getOutbox = () => entries;
+
+/** Calls `listener` whenever the outbox changes. Returns an unsubscribe function. */
+export const subscribeOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Shows an entry in lists, as the appraisal it will become once saved. */
+export const toPendingAppraisal = (entry: OutboxEntry, appraiser: Appraiser): Appraisal => ({
+  $id: entry.id,
+  $createdAt: entry.createdAt,
+  ...toAppraisalDocument(entry.valuation, { objectImage: entry.imageUri, appraiser: appraiser.$id }),
+  appraiser,
+});
+
+const schedule = () => {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  const due = entries
+    .filter((entry) => entry.appraiserId === activeUserId && entry.status === "pending")
+    .map((entry) => entry.nextAttemptAt);
+  if (!due.length) return;
+  timer = setTimeout(processOutbox, Math.max(0, Math.min(...due) - Date.now()));
+};
+
+const attempt = async (entry: OutboxEntry) => {
+  try {
+    await createAppraisal({ uri: entry.imageUri }, entry.valuation, entry.appraiserId, {
+      idempotencyKey: entry.id,
+    });
+    remove(entry.id);
+    invalidateQueries(appraisalKeys);
+    return true;
+  } catch (error) {
+    const appError = toAppError(error);
+    // Offline or signed out: the entry isn't at fault, and the rest would
+    // fail the same way, so wait without using up its attempts.
+    if (appError instanceof NetworkError || appError instanceof UnauthorizedError) {
+      const deferrals = (entry.deferrals ?? 0) + 1;
+      update(entry.id, {
+        deferrals,
+        nextAttemptAt: Date.now() + backoff(deferrals),
+        lastError: appError.message,
+      });
+      return false;
+    }
+
+    // Running out of attempts keeps the upload, since the entry can still
+    // be retried; a refusal would only be given again.
+    const attempts = entry.attempts + 1;
+    const isRefused = isPermanentError(appError);
+    update(entry.id, {
+      attempts,
+      deferrals: 0,
+      nextAttemptAt: Date.now() + backoff(attempts),
+      status: isRefused || attempts >= MAX_ATTEMPTS ? "failed" : "pending",
+      lastError: appError.message,
+    });
+    if (isRefused) deleteUpload(entry.id);
+    return true;
+  }
+};
+
+/** Sends every due entry of the signed-in user, one at a time. */
+export const processOutbox = async () => {
+  await load();
+  if (isProcessing || !activeUserId) return;
+  isProcessing = true;
+  try {
+    const userId = activeUserId;
+    const due = entries.filter(
+      (entry) =>
+        entry.appraiserId === userId &&
+        entry.status === "pending" &&
+        entry.nextAttemptAt <= Date.now()
+    );
+    for (const entry of due) {
+      if (activeUserId !== userId || !(await attempt(entry))) break;
+    }
+  } finally {
+    isProcessing = false;
+    schedule();
+  }
+};
+
+/**
+ * Queues an appraisal to be saved and starts sending it. Resolves once it's
+ * safely stored on the device, not once it's saved.
+ */
+export const enqueueAppraisal = async (imageUri: string, valuation: Valuation, appraiserId: string) => {
+  await load();
+  const id = createId();
+  const path = `${IMAGE_DIR}/${id}.jpg`;
+  // The camera's photo lives in the cache, which the OS may clear.
+  await RNFS.mkdir(IMAGE_DIR);
+  await RNFS.copyFile(imageUri.replace(/^file:\/\//, ""), path);
+
+  const entry: OutboxEntry = {
+    id,
+    imageUri: `file://${path}`,
+    valuation,
+    appraiserId,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    status: "pending",
+  };
+  save([...entries, entry]);
+  processOutbox();
+  return entry;
+};
+
+/** Tries a failed (or waiting) entry again straight away. */
+export const retryEntry = (id: string) => {
+  update(id, { status: "pending", attempts: 0, deferrals: 0, nextAttemptAt: Date.now() });
+  processOutbox();
+};
+
+// Coming back to the foreground often means being back online, so entries
+// waiting on the network are tried straight away rather than after their
+// backoff.
+const retryDeferred = async () => {
+  await load();
+  const now = Date.now();
+  save(
+    entries.map((entry) =>
+      entry.status === "pending" && entry.deferrals ? { ...entry, nextAttemptAt: now } : entry
+    )
+  );
+  processOutbox();
+};
+
+/** Gives up on an entry and deletes its photo, here and in storage. */
+export const discardEntry = (id: string) => {
+  remove(id);
+  deleteUpload(id);
+  schedule();
+};
+
+/**
+ * Starts sending `userId`'s entries: now, whenever one is due and whenever
+ * the app comes back to the foreground.
+ */
+export const startOutbox = (userId: string) => {
+  activeUserId = userId;
+  appStateSubscription ??= AppState.addEventListener("change", (state) => {
+    if (state === "active") retryDeferred();
+  });
+  processOutbox();
+};
+
+/** Stops sending, e.g. on sign-out. Entries are kept for next time. */
+export const stopOutbox = () => {
+  activeUserId = null;
+  appStateSubscription?.remove();
+  appStateSubscription = null;
+  if (timer) clearTimeout(timer);
+  timer = null;
+};
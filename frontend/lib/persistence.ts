@@ -0,0 +1,106 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { reportHandledError } from "@/lib/errorReports";
+
+/**
+ * Offline copies of server data in AsyncStorage. Everything is read into
+ * memory once at launch by {@link hydratePersistence}, so screens can read
+ * it synchronously on their first render. Bump {@link SCHEMA_VERSION}
+ * whenever the shape of persisted data changes; older entries are dropped.
+ */
+
+export const SCHEMA_VERSION = 1;
+
+const KEY_PREFIX = "persisted:";
+
+const HOUR = 60 * 60 * 1000;
+
+/** How long each kind of entry may be shown before it's considered too old. */
+export const PERSISTENCE_TTL = {
+  currentUser: 30 * 24 * HOUR,
+  feed: 24 * HOUR,
+  userPosts: 7 * 24 * HOUR,
+};
+
+interface Envelope {
+  version: number;
+  savedAt: number;
+  ttl: number;
+  data: unknown;
+}
+
+const memory = new Map<string, Envelope>();
+let hydration: Promise<void> | null = null;
+
+const isFresh = (envelope: Envelope, now = Date.now()) =>
+  envelope.version === SCHEMA_VERSION && now - envelope.savedAt < envelope.ttl;
+
+const isEnvelope = (value: unknown): value is Envelope =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as Envelope).version === "number" &&
+  typeof (value as Envelope).savedAt === "number" &&
+  typeof (value as Envelope).ttl === "number";
+
+/**
+ * Loads every persisted entry into memory, deleting ones that are expired,
+ * from another schema version or unreadable. Safe to call more than once.
+ */
+export const hydratePersistence = () => {
+  hydration ??= (async () => {
+    try {
+      const keys = (await AsyncStorage.getAllKeys()).filter((key) => key.startsWith(KEY_PREFIX));
+      const stale: string[] = [];
+      for (const [storageKey, raw] of await AsyncStorage.multiGet(keys)) {
+        let envelope: unknown;
+        try {
+          envelope = raw ? JSON.parse(raw) : null;
+        } catch {
+          envelope = null;
+        }
+        if (isEnvelope(envelope) && isFresh(envelope)) {
+          memory.set(storageKey.slice(KEY_PREFIX.length), envelope);
+        } else {
+          stale.push(storageKey);
+        }
+      }
+      if (stale.length) await AsyncStorage.multiRemove(stale);
+    } catch (error) {
+      // Without persistence the app still works, just not offline.
+      reportHandledError(error);
+    }
+  })();
+  return hydration;
+};
+
+/**
+ * The data last saved under `key`, if it's still fresh. Unvalidated: pass it
+ * through the matching parser in lib/models before trusting its shape.
+ */
+export const readPersisted = (key: string): unknown => {
+  const envelope = memory.get(key);
+  if (!envelope) return undefined;
+  if (!isFresh(envelope)) {
+    removePersisted(key);
+    return undefined;
+  }
+  return envelope.data;
+};
+
+/** Saves `data` under `key`; it's readable straight away and after a restart. */
+export const persist = (key: string, data: unknown, ttl: number) => {
+  const envelope: Envelope = { version: SCHEMA_VERSION, savedAt: Date.now(), ttl, data };
+  memory.set(key, envelope);
+  AsyncStorage.setItem(KEY_PREFIX + key, JSON.stringify(envelope)).catch(reportHandledError);
+};
+
+export const removePersisted = (key: string) => {
+  memory.delete(key);
+  AsyncStorage.removeItem(KEY_PREFIX + key).catch(reportHandledError);
+};
+
+/** Forgets everything persisted, e.g. on sign-out. */
+export const clearPersisted = () => {
+  const keys = [...memory.keys()].map((key) => KEY_PREFIX + key);
+  memory.clear();
+  AsyncStorage.multiRemove(keys).catch(reportHandledError);
+};
@@ -0,0 +1,148 @@
+import {
+  QueryContext,
+  clearQueryCache,
+  fetchQuery,
+  getQueryState,
+  invalidateQueries,
+  onInvalidate,
+  setQueryData,
+  subscribeQuery,
+} from "@/lib/queryCache";
+
+// A fetcher whose calls stay pending until the test settles them.
+const deferredFetcher = <T>() => {
+  const calls: {
+    args: unknown[];
+    signal: AbortSignal;
+    resolve: (value: T) => void;
+    reject: (error: unknown) => void;
+  }[] = [];
+  const fn = jest.fn(
+    (...args: unknown[]) =>
+      new Promise<T>((resolve, reject) => {
+        const { signal } = args.pop() as QueryContext;
+        calls.push({ args, signal, resolve, reject });
+      })
+  );
+  return { fn, calls };
+};
+
+afterEach(clearQueryCache);
+
+describe("fetchQuery", () => {
+  it("passes the arguments and a signal to the fetcher", async () => {
+    const { fn, calls } = deferredFetcher<string>();
+    const result = fetchQuery("stats", fn, ["user-1", 2]);
+
+    expect(calls[0].args).toEqual(["user-1", 2]);
+    expect(calls[0].signal.aborted).toBe(false);
+    calls[0].resolve("done");
+    expect(await result).toBe("done");
+    expect(getQueryState("stats", ["user-1", 2])).toMatchObject({
+      data: "done",
+      isFetching: false,
+    });
+  });
+
+  it("shares one request between callers asking for the same thing", async () => {
+    const { fn, calls } = deferredFetcher<string>();
+    const first = fetchQuery("stats", fn, ["user-1"]);
+    const second = fetchQuery("stats", fn, ["user-1"]);
+    fetchQuery("stats", fn, ["user-2"]);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+    calls[0].resolve("shared");
+    expect(await Promise.all([first, second])).toEqual(["shared", "shared"]);
+  });
+
+  it("keeps the previous data while refetching and after a failure", async () => {
+    const { fn, calls } = deferredFetcher<string>();
+    setQueryData("stats", [], "cached");
+
+    const refetch = fetchQuery("stats", fn, []);
+    expect(getQueryState("stats", [])).toMatchObject({ data: "cached", isFetching: true });
+
+    const error = new Error("offline");
+    calls[0].reject(error);
+    await expect(refetch).rejects.toBe(error);
+    expect(getQueryState("stats", [])).toMatchObject({
+      data: "cached",
+      error,
+      isFetching: false,
+    });
+  });
+});
+
+describe("invalidateQueries", () => {
+  it("aborts the request in flight and ignores its late result", async () => {
+    const { fn, calls } = deferredFetcher<string>();
+    setQueryData("stats", ["user-1"], "old");
+    const stale = fetchQuery("stats", fn, ["user-1"]);
+
+    invalidateQueries(["stats"]);
+    expect(calls[0].signal.aborted).toBe(true);
+    expect(getQueryState("stats", ["user-1"])).toMatchObject({ updatedAt: 0, isFetching: false });
+
+    calls[0].resolve("from before the change");
+    await stale;
+    expect(getQueryState("stats", ["user-1"]).data).toBe("old");
+  });
+
+  it("sends a new request rather than reusing the abandoned one", () => {
+    const { fn } = deferredFetcher<string>();
+    fetchQuery("stats", fn, []);
+    invalidateQueries(["stats"]);
+    fetchQuery("stats", fn, []);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("notifies listeners of the invalidated keys only", () => {
+    const stats = jest.fn();
+    const sessions = jest.fn();
+    const stopStats = onInvalidate("stats", stats);
+    const stopSessions = onInvalidate("sessions", sessions);
+
+    invalidateQueries(["stats"]);
+    expect(stats).toHaveBeenCalledTimes(1);
+    expect(sessions).not.toHaveBeenCalled();
+    stopStats();
+    stopSessions();
+  });
+});
+
+describe("subscribeQuery", () => {
+  it("tells listeners about changes", () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeQuery("stats", [], listener);
+    setQueryData("stats", [], "fresh");
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+
+  it("cancels the request when the last listener leaves", () => {
+    const { fn, calls } = deferredFetcher<string>();
+    const first = subscribeQuery("stats", [], jest.fn());
+    const second = subscribeQuery("stats", [], jest.fn());
+    fetchQuery("stats", fn, []).catch(() => undefined);
+
+    first();
+    expect(calls[0].signal.aborted).toBe(false);
+    second();
+    expect(calls[0].signal.aborted).toBe(true);
+    expect(getQueryState("stats", []).isFetching).toBe(false);
+  });
+});
+
+describe("clearQueryCache", () => {
+  it("forgets the data and cancels requests in flight", () => {
+    const { fn, calls } = deferredFetcher<string>();
+    setQueryData("stats", [], "cached");
+    fetchQuery("sessions", fn, []);
+
+    clearQueryCache();
+    expect(calls[0].signal.aborted).toBe(true);
+    expect(getQueryState("stats", []).data).toBeUndefined();
+  });
+});
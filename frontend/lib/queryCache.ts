@@ -0,0 +1,218 @@
+/**
+ * A small stale-while-revalidate cache shared by every `useQuery`. Entries
+ * are identified by a key (e.g. "userStats") plus the query's arguments, so
+ * screens asking for the same thing share one entry and one request.
+ * Entries nobody has listened to for {@link GC_TIME} are dropped.
+ */
+
+/** Passed to every fetcher after its arguments. */
+export interface QueryContext {
+  /**
+   * Aborted once the result is no longer wanted: the last listener left, or
+   * the entry was invalidated or cleared. Fetchers that can stop early should.
+   */
+  signal: AbortSignal;
+}
+
+export type QueryFn<T, TArgs extends readonly unknown[]> = (
+  ...args: NoInfer<[...TArgs, QueryContext]>
+) => Promise<T>;
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  /** When `data` was last fetched, in ms since the epoch; 0 if never. */
+  updatedAt: number;
+  isFetching: boolean;
+}
+
+interface Entry<T> extends QueryState<T> {
+  key: string;
+  promise: Promise<T> | null;
+  controller: AbortController | null;
+  /**
+   * Bumped by invalidation and clearing, so a request sent before either
+   * is neither reused nor allowed to write its result.
+   */
+  generation: number;
+  listeners: Set<() => void>;
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const GC_TIME = 5 * 60 * 1000;
+
+const entries = new Map<string, Entry<unknown>>();
+const invalidationListeners = new Map<string, Set<() => void>>();
+
+/** Identifies a query by its key and arguments. */
+export const cacheKey = (key: string, args: readonly unknown[]) => JSON.stringify([key, ...args]);
+
+// Entries under one id are only ever written by queries of the same type.
+const entryFor = <T>(key: string, id: string): Entry<T> => {
+  let entry = entries.get(id);
+  if (!entry) {
+    entry = {
+      key,
+      data: undefined,
+      error: null,
+      updatedAt: 0,
+      isFetching: false,
+      promise: null,
+      controller: null,
+      generation: 0,
+      listeners: new Set(),
+      gcTimer: null,
+    };
+    entries.set(id, entry);
+  }
+  return entry as Entry<T>;
+};
+
+/** Drops the entry later unless someone starts listening or fetching again. */
+const scheduleGc = (id: string, entry: Entry<unknown>) => {
+  if (entry.gcTimer) clearTimeout(entry.gcTimer);
+  entry.gcTimer = null;
+  if (entry.listeners.size > 0) return;
+  entry.gcTimer = setTimeout(() => {
+    entry.gcTimer = null;
+    if (entry.listeners.size === 0 && !entry.promise && entries.get(id) === entry) {
+      entries.delete(id);
+    }
+  }, GC_TIME);
+};
+
+const update = <T>(entry: Entry<T>, changes: Partial<QueryState<T>>) => {
+  Object.assign(entry, changes);
+  entry.listeners.forEach((listener) => listener());
+};
+
+export const getQueryState = <T>(key: string, args: readonly unknown[]): QueryState<T> => {
+  const entry = entries.get(cacheKey(key, args)) as Entry<T> | undefined;
+  if (!entry) return { data: undefined, error: null, updatedAt: 0, isFetching: false };
+  const { data, error, updatedAt, isFetching } = entry;
+  return { data, error, updatedAt, isFetching };
+};
+
+// Abandons the request in flight, if any: its signal is aborted and its
+// result, should it still arrive, is not written.
+const abandonFetch = (entry: Entry<unknown>) => {
+  entry.generation += 1;
+  entry.promise = null;
+  entry.controller?.abort();
+  entry.controller = null;
+};
+
+/**
+ * Calls `listener` whenever the entry changes. Returns an unsubscribe
+ * function; when the last listener leaves, the request in flight is cancelled.
+ */
+export const subscribeQuery = (key: string, args: readonly unknown[], listener: () => void) => {
+  const id = cacheKey(key, args);
+  const entry = entryFor(key, id);
+  entry.listeners.add(listener);
+  if (entry.gcTimer) clearTimeout(entry.gcTimer);
+  entry.gcTimer = null;
+  return () => {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size > 0) return;
+    if (entry.promise) {
+      abandonFetch(entry);
+      entry.isFetching = false;
+    }
+    scheduleGc(id, entry);
+  };
+};
+
+/**
+ * Fetches into the cache. A request already in flight for the same key and
+ * arguments is reused rather than sent again, unless the entry was
+ * invalidated or cleared since it was sent. Failures are stored on the
+ * entry and the previous data kept.
+ *
+ * `fn` is called with `args` followed by a {@link QueryContext}.
+ */
+export const fetchQuery = <T, const TArgs extends readonly unknown[]>(
+  key: string,
+  fn: QueryFn<T, TArgs>,
+  args: TArgs
+): Promise<T> => {
+  const id = cacheKey(key, args);
+  const entry = entryFor<T>(key, id);
+  if (entry.promise) return entry.promise;
+
+  const { generation } = entry;
+  const controller = new AbortController();
+  const promise = fn(...args, { signal: controller.signal }).then(
+    (data) => {
+      if (entry.generation === generation) {
+        entry.promise = null;
+        entry.controller = null;
+        update(entry, { data, error: null, updatedAt: Date.now(), isFetching: false });
+        scheduleGc(id, entry);
+      }
+      return data;
+    },
+    (error: unknown) => {
+      if (entry.generation === generation) {
+        entry.promise = null;
+        entry.controller = null;
+        update(entry, { error, isFetching: false });
+        scheduleGc(id, entry);
+      }
+      throw error;
+    }
+  );
+  entry.promise = promise;
+  entry.controller = controller;
+  update(entry, { isFetching: true });
+  return promise;
+};
+
+/** Replaces an entry's data, e.g. with the result of a mutation. */
+export const setQueryData = <T>(key: string, args: readonly unknown[], data: T) => {
+  const id = cacheKey(key, args);
+  const entry = entryFor<T>(key, id);
+  update(entry, { data, error: null, updatedAt: Date.now() });
+  scheduleGc(id, entry);
+};
+
+/** Calls `listener` whenever `key` is invalidated. Returns an unsubscribe function. */
+export const onInvalidate = (key: string, listener: () => void) => {
+  let listeners = invalidationListeners.get(key);
+  if (!listeners) {
+    listeners = new Set();
+    invalidationListeners.set(key, listeners);
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Marks every entry under `keys` stale, whatever its arguments, so mounted
+ * queries refetch and others refetch when next used.
+ */
+export const invalidateQueries = (keys: readonly string[]) => {
+  for (const entry of entries.values()) {
+    if (!keys.includes(entry.key)) continue;
+    abandonFetch(entry);
+    update(entry, { updatedAt: 0, isFetching: false });
+  }
+  for (const key of keys) {
+    invalidationListeners.get(key)?.forEach((listener) => listener());
+  }
+};
+
+/** Forgets all cached data, e.g. when the user signs out. */
+export const clearQueryCache = () => {
+  for (const [id, entry] of entries) {
+    abandonFetch(entry);
+    if (entry.listeners.size === 0) {
+      if (entry.gcTimer) clearTimeout(entry.gcTimer);
+      entries.delete(id);
+      continue;
+    }
+    update(entry, { data: undefined, error: null, updatedAt: 0, isFetching: false });
+  }
+};
@@ -0,0 +1,19 @@
+/**
+ * Cache keys for `useQuery`, `useMutation` and `usePagination`. A mutation
+ * invalidates the keys whose data it changes.
+ */
+export const queryKeys = {
+  feed: "feed",
+  search: "search",
+  userPosts: "userPosts",
+  userStats: "userStats",
+  sessions: "sessions",
+} as const;
+
+/** Everything that lists or summarizes appraisals. */
+export const appraisalKeys = [
+  queryKeys.feed,
+  queryKeys.search,
+  queryKeys.userPosts,
+  queryKeys.userStats,
+];
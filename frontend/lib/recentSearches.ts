@@ -0,0 +1,43 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { reportHandledError } from "@/lib/errorReports";
+
+const STORAGE_KEY = "recentSearches";
+const MAX_RECENT_SEARCHES = 8;
+
+/** Recent search queries, most recent first. */
+export const getRecentSearches = async (): Promise<string[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter((item) => typeof item === "string") : [];
+  } catch (error) {
+    reportHandledError(error);
+    return [];
+  }
+};
+
+/** Moves `query` to the front of the recent searches, dropping the oldest. */
+export const addRecentSearch = async (query: string) => {
+  const trimmed = query.trim();
+  if (!trimmed) return getRecentSearches();
+
+  const recent = await getRecentSearches();
+  const next = [
+    trimmed,
+    ...recent.filter((item) => item.toLowerCase() !== trimmed.toLowerCase()),
+  ].slice(0, MAX_RECENT_SEARCHES);
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    reportHandledError(error);
+  }
+  return next;
+};
+
+export const clearRecentSearches = async () => {
+  try {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    reportHandledError(error);
+  }
+};
@@ -0,0 +1,21 @@
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+/**
+ * Subscribes to "the session is no longer valid", e.g. a 401 from the
+ * backend after the session expired or was revoked elsewhere. A 401 for a
+ * request the session isn't allowed to make doesn't count. Returns an
+ * unsubscribe function.
+ */
+export const onUnauthorized = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Tells every subscriber the session is gone. Called by the data sources. */
+export const notifyUnauthorized = () => {
+  listeners.forEach((listener) => listener());
+};
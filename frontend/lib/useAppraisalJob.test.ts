@@ -0,0 +1,91 @@
+import { AppraisalResult } from "@/lib/appraisal";
+import {
+  AppraisalJobAction,
+  AppraisalJobState,
+  appraisalJobReducer,
+  initialAppraisalJobState,
+} from "@/lib/useAppraisalJob";
+
+// The native file system module isn't available under jest.
+jest.mock("react-native-fs", () => ({ readFile: jest.fn() }));
+
+const result = (overrides: Partial<AppraisalResult> = {}): AppraisalResult => ({
+  imageUri: "file:///photo.jpg",
+  detections: [],
+  item: null,
+  valuation: null,
+  classificationError: null,
+  ...overrides,
+});
+
+const run = (...actions: AppraisalJobAction[]): AppraisalJobState =>
+  actions.reduce(appraisalJobReducer, initialAppraisalJobState);
+
+describe("appraisalJobReducer", () => {
+  it("starts analyzing from a clean slate", () => {
+    const failed = run({ type: "start" }, { type: "fail", error: new Error("boom") });
+    expect(appraisalJobReducer(failed, { type: "start" })).toEqual({
+      ...initialAppraisalJobState,
+      status: "analyzing",
+    });
+  });
+
+  it("tracks progress while analyzing", () => {
+    const state = run({ type: "start" }, { type: "progress", progress: 0.4, stage: "Detecting" });
+    expect(state).toMatchObject({ status: "analyzing", progress: 0.4, stage: "Detecting" });
+  });
+
+  it("ignores progress before the job starts", () => {
+    expect(run({ type: "progress", progress: 0.4, stage: "Detecting" })).toBe(
+      initialAppraisalJobState
+    );
+  });
+
+  it("completes with the result", () => {
+    const done = result();
+    const state = run(
+      { type: "start" },
+      { type: "progress", progress: 0.4, stage: "Detecting" },
+      { type: "complete", result: done }
+    );
+    expect(state).toMatchObject({ status: "complete", progress: 1, stage: null, result: done });
+    expect(state.classificationError).toBeNull();
+  });
+
+  it("carries a classifier failure over from the result", () => {
+    const error = new Error("mobilenet failed");
+    const state = run(
+      { type: "start" },
+      { type: "complete", result: result({ classificationError: error }) }
+    );
+    expect(state).toMatchObject({ status: "complete", classificationError: error });
+  });
+
+  it("records an error", () => {
+    const error = new Error("boom");
+    const state = run({ type: "start" }, { type: "fail", error });
+    expect(state).toMatchObject({ status: "failed", stage: null, error });
+  });
+
+  it("discards a result, error or progress that arrives after a cancel", () => {
+    const cancelled = run(
+      { type: "start" },
+      { type: "progress", progress: 0.4, stage: "Detecting" },
+      { type: "cancel" }
+    );
+    expect(cancelled).toMatchObject({ status: "cancelled", progress: 0.4, stage: null });
+
+    expect(appraisalJobReducer(cancelled, { type: "complete", result: result() })).toBe(cancelled);
+    expect(appraisalJobReducer(cancelled, { type: "fail", error: new Error("late") })).toBe(
+      cancelled
+    );
+    expect(
+      appraisalJobReducer(cancelled, { type: "progress", progress: 0.8, stage: "Valuing" })
+    ).toBe(cancelled);
+  });
+
+  it("only cancels a running job", () => {
+    const done = run({ type: "start" }, { type: "complete", result: result() });
+    expect(appraisalJobReducer(done, { type: "cancel" })).toBe(done);
+  });
+});
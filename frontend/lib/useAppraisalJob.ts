@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useReducer, useRef } from "react";
+import {
+  AppraisalCancelledError,
+  AppraisalInput,
+  AppraisalResult,
+  runAppraisal,
+} from "@/lib/appraisal";
+
+export type AppraisalStatus = "idle" | "analyzing" | "complete" | "failed" | "cancelled";
+
+export interface AppraisalJobState {
+  status: AppraisalStatus;
+  /** Fraction of the work done, from 0 to 1. */
+  progress: number;
+  stage: string | null;
+  result: AppraisalResult | null;
+  error: Error | null;
+  /** Set when the job completed without classifier labels; see {@link AppraisalResult}. */
+  classificationError: Error | null;
+}
+
+export type AppraisalJobAction =
+  | { type: "start" }
+  | { type: "progress"; progress: number; stage: string }
+  | { type: "complete"; result: AppraisalResult }
+  | { type: "fail"; error: Error }
+  | { type: "cancel" };
+
+export const initialAppraisalJobState: AppraisalJobState = {
+  status: "idle",
+  progress: 0,
+  stage: null,
+  result: null,
+  error: null,
+  classificationError: null,
+};
+
+export function appraisalJobReducer(
+  state: AppraisalJobState,
+  action: AppraisalJobAction
+): AppraisalJobState {
+  switch (action.type) {
+    case "start":
+      return { ...initialAppraisalJobState, status: "analyzing" };
+    case "progress":
+      // Late progress from a job that already ended is ignored.
+      if (state.status !== "analyzing") return state;
+      return { ...state, progress: action.progress, stage: action.stage };
+    case "complete":
+      // A result that arrives after the job was cancelled is discarded.
+      if (state.status !== "analyzing") return state;
+      return {
+        ...state,
+        status: "complete",
+        progress: 1,
+        stage: null,
+        result: action.result,
+        classificationError: action.result.classificationError,
+      };
+    case "fail":
+      if (state.status !== "analyzing") return state;
+      return { ...state, status: "failed", stage: null, error: action.error };
+    case "cancel":
+      if (state.status !== "analyzing") return state;
+      return { ...state, status: "cancelled", stage: null };
+  }
+}
+
+/**
+ * Runs an appraisal for `input` as soon as it is given, and exposes its state
+ * along with `cancel` and `retry` controls. With no input the job stays idle.
+ */
+const useAppraisalJob = (input: AppraisalInput | null) => {
+  const [state, dispatch] = useReducer(appraisalJobReducer, initialAppraisalJobState);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const start = useCallback(async () => {
+    if (!input) return;
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    dispatch({ type: "start" });
+
+    try {
+      const result = await runAppraisal(input, {
+        signal: controller.signal,
+        onProgress: ({ progress, stage }) => {
+          if (!controller.signal.aborted) dispatch({ type: "progress", progress, stage });
+        },
+      });
+      if (!controller.signal.aborted) dispatch({ type: "complete", result });
+    } catch (error) {
+      // A cancelled job has already been marked as such by `cancel`.
+      if (error instanceof AppraisalCancelledError || controller.signal.aborted) return;
+      dispatch({
+        type: "fail",
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  }, [input]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    dispatch({ type: "cancel" });
+  }, []);
+
+  useEffect(() => {
+    start();
+    return () => controllerRef.current?.abort();
+  }, [start]);
+
+  return { ...state, cancel, retry: start };
+};
+
+export default useAppraisalJob;
@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from "react";
+
+// Kept outside the component, so leaving the screen doesn't reset the wait.
+const startedAt = new Map<string, number>();
+
+/**
+ * Counts down from `seconds` after `start`, e.g. between resent emails.
+ * Cooldowns with the same `key` are shared.
+ */
+const useCooldown = (key: string, seconds: number) => {
+  const [now, setNow] = useState(Date.now);
+  const endsAt = (startedAt.get(key) ?? 0) + seconds * 1000;
+  const remaining = Math.max(0, Math.ceil((endsAt - now) / 1000));
+
+  useEffect(() => {
+    if (remaining === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [remaining === 0]);
+
+  const start = useCallback(() => {
+    startedAt.set(key, Date.now());
+    setNow(Date.now());
+  }, [key]);
+
+  return { remaining, isCoolingDown: remaining > 0, start };
+};
+
+export default useCooldown;
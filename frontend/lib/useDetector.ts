@@ -0,0 +1,31 @@
+import { useEffect, useState } from "react";
+import { Detector, getDetector } from "@/lib/detection";
+
+/**
+ * Loads the shared on-device detector. `detector` stays null until the model
+ * has been loaded and warmed up.
+ */
+const useDetector = () => {
+  const [detector, setDetector] = useState<Detector | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    getDetector()
+      .then((loaded) => {
+        if (isMounted) setDetector(loaded);
+      })
+      .catch((err) => {
+        if (isMounted) setError(err instanceof Error ? err : new Error(String(err)));
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  return { detector, isLoading: !detector && !error, error };
+};
+
+export default useDetector;
@@ -0,0 +1,19 @@
+import { useEffect, useMemo, useState } from "react";
+import { getOutbox, subscribeOutbox } from "@/lib/outbox";
+
+/** `appraiserId`'s appraisals still waiting in the outbox, oldest first. */
+const useOutbox = (appraiserId: string | undefined) => {
+  const [entries, setEntries] = useState(getOutbox);
+
+  useEffect(() => {
+    setEntries(getOutbox());
+    return subscribeOutbox(() => setEntries(getOutbox()));
+  }, []);
+
+  return useMemo(
+    () => entries.filter((entry) => entry.appraiserId === appraiserId),
+    [entries, appraiserId]
+  );
+};
+
+export default useOutbox;
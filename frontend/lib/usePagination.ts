@@ -0,0 +1,197 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Page, PageRequest } from "@/lib/dataSource";
+import { onInvalidate } from "@/lib/queryCache";
+import { persist, readPersisted } from "@/lib/persistence";
+
+type FetchPage<T> = (page: PageRequest) => Promise<Page<T>>;
+
+// Fetches a page, resolving to the error instead of rejecting.
+const settle = <T>(promise: Promise<Page<T>>) =>
+  promise.then(
+    (page) => ({ page, error: null }),
+    (error: unknown) => ({ page: null, error })
+  );
+
+// Enough for a screenful or two offline without bloating storage.
+const MAX_PERSISTED_ITEMS = 50;
+
+interface PersistOptions<T> {
+  /** Storage key, unique to this listing (include filters, user ids, etc.). */
+  key: string;
+  ttl: number;
+  /** Validates what was read back, e.g. `(raw) => parseEach(raw, parseAppraisal)`. */
+  parse: (raw: unknown[]) => T[];
+}
+
+interface PaginationOptions<T> {
+  limit?: number;
+  /** Query key (see lib/queryKeys) whose invalidation reloads the list. */
+  key?: string;
+  /** Keep the first items across restarts, shown until the server answers. */
+  persist?: PersistOptions<T>;
+}
+
+interface Snapshot<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+const readSnapshot = <T>(options?: PersistOptions<T>): Snapshot<T> | null => {
+  if (!options) return null;
+  const raw = readPersisted(options.key);
+  if (typeof raw !== "object" || raw === null) return null;
+  const { items, nextCursor } = raw as { items?: unknown; nextCursor?: unknown };
+  if (!Array.isArray(items)) return null;
+  return {
+    items: options.parse(items),
+    nextCursor: typeof nextCursor === "string" ? nextCursor : null,
+  };
+};
+
+/**
+ * Loads a cursor-paginated listing page by page for an infinite list.
+ *
+ * `refresh` starts over from the first page; any page still loading from
+ * before the refresh is dropped when it arrives. `fetchPage` should be
+ * stable (e.g. a module-level function or memoized); a new one reloads
+ * from scratch. The last failure is kept in `error` until the next
+ * successful page, and `retry` redoes the load that failed. With `persist`,
+ * the last items loaded are shown straight away on the next launch, and
+ * kept if the server can't be reached.
+ */
+const usePagination = <T extends { $id: string }>(
+  fetchPage: FetchPage<T>,
+  { limit, key, persist: persistOptions }: PaginationOptions<T> = {}
+) => {
+  const persistRef = useRef(persistOptions);
+  persistRef.current = persistOptions;
+  const persistKey = persistOptions?.key;
+
+  const [items, setItems] = useState<T[]>(() => readSnapshot(persistOptions)?.items ?? []);
+  const [isLoading, setIsLoading] = useState(items.length === 0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [error, setError] = useState<unknown>(null);
+
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const cursor = useRef<string | null>(null);
+  const busy = useRef(false);
+  // Whether the last first-page load failed, which `retry` has to redo.
+  const firstPageFailed = useRef(false);
+  // Bumped on every reset so stale responses can be recognised.
+  const generation = useRef(0);
+
+  const show = useCallback((next: T[], nextCursor: string | null) => {
+    setItems(next);
+    itemsRef.current = next;
+    cursor.current = nextCursor;
+    setHasMore(nextCursor !== null);
+
+    const options = persistRef.current;
+    if (options) {
+      const kept = next.slice(0, MAX_PERSISTED_ITEMS);
+      // If items were cut, resume right after the last one kept.
+      const keptCursor = kept.length < next.length ? kept[kept.length - 1].$id : nextCursor;
+      persist(options.key, { items: kept, nextCursor: keptCursor }, options.ttl);
+    }
+  }, []);
+
+  const loadFirstPage = useCallback(async () => {
+    const current = ++generation.current;
+    busy.current = true;
+    const { page, error } = await settle(fetchPage({ limit }));
+    if (current !== generation.current) return;
+
+    busy.current = false;
+    firstPageFailed.current = page === null;
+    setIsLoading(false);
+    setError(error);
+    if (page) show(page.documents, page.nextCursor);
+  }, [fetchPage, limit, show]);
+
+  // Start over whenever the listing itself changes, e.g. a new search query.
+  useEffect(() => {
+    const snapshot = readSnapshot(persistRef.current);
+    setItems(snapshot?.items ?? []);
+    itemsRef.current = snapshot?.items ?? [];
+    cursor.current = snapshot?.nextCursor ?? null;
+    setIsLoading(!snapshot?.items.length);
+    setIsLoadingMore(false);
+    loadFirstPage();
+  }, [loadFirstPage, persistKey]);
+
+  const refresh = useCallback(async () => {
+    setIsRefreshing(true);
+    setIsLoadingMore(false);
+    try {
+      await loadFirstPage();
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [loadFirstPage]);
+
+  useEffect(() => (key ? onInvalidate(key, refresh) : undefined), [key, refresh]);
+
+  const loadMore = useCallback(async () => {
+    // onEndReached fires repeatedly while a page is in flight.
+    if (busy.current || !cursor.current) return;
+
+    const current = generation.current;
+    busy.current = true;
+    setIsLoadingMore(true);
+    const { page, error } = await settle(fetchPage({ limit, cursor: cursor.current }));
+    if (current !== generation.current) return;
+
+    busy.current = false;
+    setIsLoadingMore(false);
+    setError(error);
+    if (page) {
+      // Skip anything already shown, e.g. if items shifted between pages.
+      const seen = new Set(itemsRef.current.map((item) => item.$id));
+      show(
+        [...itemsRef.current, ...page.documents.filter((item) => !seen.has(item.$id))],
+        page.nextCursor
+      );
+    }
+  }, [fetchPage, limit, show]);
+
+  /**
+   * Redoes whatever failed last. After a failed refresh the items on screen
+   * are stale and the cursor may be gone, so that starts over.
+   */
+  const retry = useCallback(
+    () => (firstPageFailed.current || !cursor.current ? refresh() : loadMore()),
+    [refresh, loadMore]
+  );
+
+  /** Edits the loaded items in place, e.g. to apply a realtime update. */
+  const updateItems = useCallback(
+    (update: (items: T[]) => T[]) => {
+      const previous = itemsRef.current;
+      const next = update(previous);
+      // The next page is fetched after the cursor item, so it has to exist.
+      const lostCursor =
+        previous.some((item) => item.$id === cursor.current) &&
+        !next.some((item) => item.$id === cursor.current);
+      show(next, lostCursor ? next[next.length - 1]?.$id ?? null : cursor.current);
+    },
+    [show]
+  );
+
+  return {
+    items,
+    isLoading,
+    isLoadingMore,
+    isRefreshing,
+    hasMore,
+    error,
+    loadMore,
+    refresh,
+    retry,
+    updateItems,
+  };
+};
+
+export default usePagination;
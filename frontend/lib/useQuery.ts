@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  QueryFn,
+  QueryState,
+  cacheKey,
+  fetchQuery,
+  getQueryState,
+  invalidateQueries,
+  onInvalidate,
+  subscribeQuery,
+} from "@/lib/queryCache";
+
+export interface QueryOptions {
+  /** Skip fetching until this is true, e.g. until a user id is known. */
+  enabled?: boolean;
+  /** How long cached data counts as fresh, in ms. Stale data is still shown while refetching. */
+  staleTime?: number;
+}
+
+/**
+ * Runs `fn(...args, { signal })` through the shared query cache (see
+ * lib/queryCache).
+ *
+ * Cached data is returned straight away and refetched in the background
+ * once it's older than `staleTime`; new `args` fetch their own entry. On
+ * unmount the component stops listening, and a request nobody else is
+ * waiting for has its signal aborted. Invalidating `key` refetches while
+ * mounted.
+ */
+const useQuery = <T, const TArgs extends readonly unknown[]>(
+  key: string,
+  fn: QueryFn<T, TArgs>,
+  args: TArgs,
+  { enabled = true, staleTime = 30_000 }: QueryOptions = {}
+) => {
+  const id = cacheKey(key, args);
+  const [state, setState] = useState<QueryState<T>>(() => getQueryState<T>(key, args));
+
+  // Latest values, so callbacks don't change identity on every render.
+  const fnRef = useRef(fn);
+  fnRef.current = fn;
+  const argsRef = useRef(args);
+  argsRef.current = args;
+
+  // Errors end up in `error`; nothing to handle here.
+  const refetch = useCallback(
+    () => fetchQuery(key, fnRef.current, argsRef.current).catch(() => undefined),
+    [id]
+  );
+
+  useEffect(() => {
+    const sync = () => setState(getQueryState<T>(key, argsRef.current));
+    sync();
+    const unsubscribe = subscribeQuery(key, argsRef.current, sync);
+    if (!enabled) return unsubscribe;
+
+    const { updatedAt } = getQueryState<T>(key, argsRef.current);
+    if (Date.now() - updatedAt > staleTime) refetch();
+
+    const stopInvalidation = onInvalidate(key, refetch);
+    return () => {
+      unsubscribe();
+      stopInvalidation();
+    };
+  }, [id, enabled, staleTime, refetch]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    /** Nothing to show yet. */
+    isLoading: enabled && state.data === undefined && (state.isFetching || !state.error),
+    /** Showing cached data while fetching a fresh copy. */
+    isRefetching: state.isFetching && state.data !== undefined,
+    refetch,
+  };
+};
+
+export interface MutationOptions<T, TArgs extends readonly unknown[]> {
+  /** Query keys whose data the mutation changes. */
+  invalidates?: readonly string[] | ((data: T, args: TArgs) => readonly string[]);
+}
+
+/**
+ * Wraps a write. `mutate` resolves to the result, or rethrows so the caller
+ * can report the failure; on success the `invalidates` keys are refetched.
+ */
+export const useMutation = <T, TArgs extends readonly unknown[]>(
+  fn: (...args: TArgs) => Promise<T>,
+  { invalidates = [] }: MutationOptions<T, TArgs> = {}
+) => {
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const [data, setData] = useState<T>();
+
+  const fnRef = useRef(fn);
+  fnRef.current = fn;
+  const invalidatesRef = useRef(invalidates);
+  invalidatesRef.current = invalidates;
+  const isMounted = useRef(true);
+  useEffect(
+    () => () => {
+      isMounted.current = false;
+    },
+    []
+  );
+
+  const mutate = useCallback(async (...args: TArgs) => {
+    setIsPending(true);
+    setError(null);
+    try {
+      const result = await fnRef.current(...args);
+      const keys = invalidatesRef.current;
+      invalidateQueries(typeof keys === "function" ? keys(result, args) : keys);
+      if (isMounted.current) setData(result);
+      return result;
+    } catch (caught) {
+      if (isMounted.current) setError(caught);
+      throw caught;
+    } finally {
+      if (isMounted.current) setIsPending(false);
+    }
+  }, []);
+
+  return { mutate, isPending, error, data };
+};
+
+export default useQuery;
@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AppState } from "react-native";
+import { AppraisalEvent, Page, subscribeToAppraisals } from "@/lib/dataSource";
+import { reportHandledError } from "@/lib/errorReports";
+import { NetworkError, toAppError } from "@/lib/errors";
+import { FeedFilters, matchesFeedFilters } from "@/lib/feedQuery";
+import { Appraisal } from "@/lib/models";
+
+interface RealtimeFeedOptions {
+  /** What's listed now, to tell new appraisals from ones already shown. */
+  items: Appraisal[];
+  /** Applies an edit to the list in place, e.g. `usePagination`'s `updateItems`. */
+  updateItems: (update: (items: Appraisal[]) => Appraisal[]) => void;
+  /** The feed's first page, to catch up on events missed in the background. */
+  fetchLatest: () => Promise<Page<Appraisal>>;
+  filters?: FeedFilters;
+  /**
+   * Ids listed some other way, e.g. outbox entries still being saved, whose
+   * appraisals would otherwise show up twice.
+   */
+  pendingIds?: ReadonlySet<string>;
+}
+
+const replaceOrDrop = (items: Appraisal[], appraisal: Appraisal, keep: boolean) =>
+  keep
+    ? items.map((item) => (item.$id === appraisal.$id ? appraisal : item))
+    : items.filter((item) => item.$id !== appraisal.$id);
+
+/**
+ * Keeps a feed up to date while it's on screen. Edits and deletes apply to
+ * the listed items straight away. New appraisals are held in `incoming`
+ * rather than inserted, so the list doesn't jump under the reader; show
+ * them with `takeIncoming`. The subscription is closed in the background
+ * and reopened when the app is back; then, and whenever the connection
+ * comes back after dropping, it catches up on anything missed.
+ */
+const useRealtimeFeed = ({
+  items,
+  updateItems,
+  fetchLatest,
+  filters,
+  pendingIds,
+}: RealtimeFeedOptions) => {
+  const [incoming, setIncoming] = useState<Appraisal[]>([]);
+
+  // Read from the subscription, which is only opened once.
+  const latest = useRef({ items, updateItems, fetchLatest, filters, pendingIds });
+  latest.current = { items, updateItems, fetchLatest, filters, pendingIds };
+
+  const isNew = (appraisal: Appraisal) => {
+    const { items, filters, pendingIds } = latest.current;
+    return (
+      !pendingIds?.has(appraisal.$id) &&
+      matchesFeedFilters(filters)(appraisal) &&
+      !items.some((item) => item.$id === appraisal.$id)
+    );
+  };
+
+  const addIncoming = (appraisals: Appraisal[]) =>
+    setIncoming((current) => [
+      ...appraisals.filter((appraisal) => !current.some((item) => item.$id === appraisal.$id)),
+      ...current,
+    ]);
+
+  const handleEvent = (event: AppraisalEvent) => {
+    if (event.type === "delete") {
+      latest.current.updateItems((items) => items.filter((item) => item.$id !== event.id));
+      setIncoming((current) => current.filter((item) => item.$id !== event.id));
+      return;
+    }
+
+    const { appraisal } = event;
+    if (event.type === "create") {
+      if (isNew(appraisal)) addIncoming([appraisal]);
+      return;
+    }
+    // An edit can take an appraisal out of the filtered feed.
+    const matches = matchesFeedFilters(latest.current.filters)(appraisal);
+    if (latest.current.items.some((item) => item.$id === appraisal.$id)) {
+      latest.current.updateItems((items) => replaceOrDrop(items, appraisal, matches));
+    }
+    setIncoming((current) => replaceOrDrop(current, appraisal, matches));
+  };
+
+  const catchUp = async () => {
+    try {
+      const { documents } = await latest.current.fetchLatest();
+      const newest = latest.current.items.reduce(
+        (max, item) => (item.$createdAt > max ? item.$createdAt : max),
+        ""
+      );
+      const listed = new Map(documents.map((document) => [document.$id, document]));
+      latest.current.updateItems((items) => items.map((item) => listed.get(item.$id) ?? item));
+      addIncoming(documents.filter((document) => document.$createdAt > newest && isNew(document)));
+    } catch (error) {
+      // The next pull-to-refresh picks up whatever was missed, so only
+      // failures other than being offline are worth reporting.
+      if (!(toAppError(error) instanceof NetworkError)) reportHandledError(error);
+    }
+  };
+
+  const handleEventRef = useRef(handleEvent);
+  handleEventRef.current = handleEvent;
+  const catchUpRef = useRef(catchUp);
+  catchUpRef.current = catchUp;
+
+  useEffect(() => {
+    let unsubscribe: (() => void) | null = null;
+    const open = () => {
+      unsubscribe ??= subscribeToAppraisals((event) => handleEventRef.current(event), {
+        onReconnect: () => catchUpRef.current(),
+      });
+    };
+    const close = () => {
+      unsubscribe?.();
+      unsubscribe = null;
+    };
+
+    if (AppState.currentState === "active") open();
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") {
+        if (unsubscribe) return;
+        open();
+        catchUpRef.current();
+      } else if (state === "background") {
+        close();
+      }
+    });
+    return () => {
+      subscription.remove();
+      close();
+    };
+  }, []);
+
+  // A new filter reloads the feed, which already has whatever was waiting.
+  const filtersKey = JSON.stringify(filters ?? {});
+  useEffect(() => setIncoming([]), [filtersKey]);
+
+  // Drop anything that got listed another way, e.g. by a refresh.
+  useEffect(() => {
+    setIncoming((current) => {
+      const next = current.filter((appraisal) => !items.some((item) => item.$id === appraisal.$id));
+      return next.length === current.length ? current : next;
+    });
+  }, [items]);
+
+  /** Hands over the waiting appraisals, newest first, and clears them. */
+  const takeIncoming = useCallback(() => {
+    const taken = [...incoming].sort((a, b) => b.$createdAt.localeCompare(a.$createdAt));
+    setIncoming([]);
+    return taken;
+  }, [incoming]);
+
+  return { incoming, takeIncoming };
+};
+
+export default useRealtimeFeed;
@@ -0,0 +1,94 @@
+import { ValidationError } from "@/lib/errors";
+import type { FieldIssue } from "@/lib/models";
+
+/**
+ * Sign-up rules, checked as the user types and again by the data sources
+ * before anything is sent. Messages are shown under the field as is.
+ *
+ * The ones that count are the API's (backend/src/validation.ts), which has
+ * the same rules: it creates accounts and user documents on the app's
+ * behalf, and clients can't write user documents themselves.
+ */
+
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 20;
+/** Appwrite's own minimum; anything shorter is rejected by the server. */
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 256;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const USERNAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_.]*$/;
+
+export interface SignUpForm {
+  username: string;
+  email: string;
+  password: string;
+}
+
+/** Trims what the user typed; usernames and emails are stored lower-cased. */
+export const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const normalizeSignUp = ({ username, email, password }: SignUpForm): SignUpForm => ({
+  username: normalizeUsername(username),
+  email: normalizeEmail(email),
+  password,
+});
+
+export const validateEmail = (email: string) => {
+  if (!email) return "Enter your email";
+  if (!EMAIL_PATTERN.test(email)) return "Enter a valid email address";
+  return null;
+};
+
+export const validatePassword = (password: string) => {
+  if (!password) return "Choose a password";
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return `Use at least ${PASSWORD_MIN_LENGTH} characters`;
+  }
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    return `Use at most ${PASSWORD_MAX_LENGTH} characters`;
+  }
+  if (!/[a-zA-Z]/.test(password) || !/[0-9]/.test(password)) {
+    return "Use both letters and numbers";
+  }
+  return null;
+};
+
+export const validateUsername = (username: string) => {
+  if (!username) return "Choose a username";
+  if (username.length < USERNAME_MIN_LENGTH || username.length > USERNAME_MAX_LENGTH) {
+    return `Use ${USERNAME_MIN_LENGTH} to ${USERNAME_MAX_LENGTH} characters`;
+  }
+  if (!USERNAME_PATTERN.test(username)) {
+    return "Start with a letter and use only letters, numbers, _ and .";
+  }
+  return null;
+};
+
+/** Every problem with a (normalized) sign-up form; empty when it's valid. */
+export const validateSignUp = ({ username, email, password }: SignUpForm): FieldIssue[] =>
+  [
+    { field: "username", message: validateUsername(username) },
+    { field: "email", message: validateEmail(email) },
+    { field: "password", message: validatePassword(password) },
+  ].filter((issue): issue is FieldIssue => issue.message !== null);
+
+export const usernameTakenError = () =>
+  new ValidationError("That username is taken", [
+    { field: "username", message: "That username is taken" },
+  ]);
+
+/**
+ * A valid username derived from an account's name or email, for repairing
+ * an account that never got a user document.
+ */
+export const suggestUsername = (name: string, email: string) => {
+  const fromName = name.replace(/[^a-zA-Z0-9_.]/g, "");
+  const fromEmail = email.split("@")[0].replace(/[^a-zA-Z0-9_.]/g, "");
+  const base = [fromName, fromEmail].find((candidate) => !validateUsername(candidate)) ?? "";
+  if (base) return normalizeUsername(base);
+  const cleaned = (fromName || fromEmail).replace(/^[^a-zA-Z]+/, "");
+  return normalizeUsername(`user${cleaned}`.slice(0, USERNAME_MAX_LENGTH));
+};
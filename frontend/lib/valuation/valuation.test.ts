@@ -0,0 +1,113 @@
+import {
+  DEFAULT_VALUATION_RULES,
+  ValuationRules,
+  formatValueRange,
+  listCategories,
+  toAppraisalDocument,
+  valuate,
+} from "@/lib/valuation";
+
+const RULES: ValuationRules = {
+  version: 7,
+  currency: "EUR",
+  minLabelProbability: 0.3,
+  tiers: [
+    { name: "Common", rank: 1 },
+    { name: "Rare", rank: 3 },
+  ],
+  labels: [{ match: ["violin"], category: "Instruments", tier: "Rare", value: [100, 900] }],
+  classes: {
+    clock: { category: "Timepieces", tier: "Common", value: [10, 50] },
+    vase: { category: "Decor", tier: "Mythic", value: [5, 20] },
+  },
+  fallback: { category: "Miscellaneous", tier: "Common", value: [1, 5] },
+};
+
+describe("valuate", () => {
+  it("prefers a matching classifier label over the detected class", () => {
+    const valuation = valuate("clock", [{ className: "violin, fiddle", probability: 0.8 }], RULES);
+
+    expect(valuation).toMatchObject({
+      objectName: "violin",
+      category: "Instruments",
+      rarity: "Rare",
+      rarityRank: 3,
+      value: { min: 100, max: 900, currency: "EUR" },
+      source: "label",
+    });
+  });
+
+  it("matches any synonym of a label", () => {
+    const valuation = valuate(null, [{ className: "fiddle, Violin", probability: 0.8 }], RULES);
+    expect(valuation).toMatchObject({ objectName: "fiddle", source: "label" });
+  });
+
+  it("ignores labels below minLabelProbability and falls back to the class", () => {
+    const valuation = valuate("clock", [{ className: "violin", probability: 0.1 }], RULES);
+    expect(valuation).toMatchObject({
+      objectName: "clock",
+      category: "Timepieces",
+      source: "class",
+    });
+  });
+
+  it("uses the fallback rule for classes the table doesn't know", () => {
+    const valuation = valuate("toaster", [], RULES);
+
+    expect(valuation).toMatchObject({
+      objectName: "toaster",
+      category: "Miscellaneous",
+      rarity: "Common",
+      value: { min: 1, max: 5, currency: "EUR" },
+      source: "fallback",
+    });
+    expect(valuation.description).toContain("doesn't match any category");
+  });
+
+  it("names an item with no detection", () => {
+    expect(valuate(null, [], RULES)).toMatchObject({
+      objectName: "unidentified item",
+      source: "fallback",
+    });
+  });
+
+  it("treats a tier missing from the tier list as the most common one", () => {
+    expect(valuate("vase", [], RULES)).toMatchObject({ rarity: "Common", rarityRank: 1 });
+  });
+
+  it("stamps the version of the table that priced it", () => {
+    expect(valuate("clock", [], RULES).rulesVersion).toBe(7);
+    expect(valuate("clock").rulesVersion).toBe(DEFAULT_VALUATION_RULES.version);
+  });
+});
+
+describe("toAppraisalDocument", () => {
+  it("flattens a valuation into document fields", () => {
+    const document = toAppraisalDocument(valuate("clock", [], RULES), {
+      objectImage: "https://example.com/clock.jpg",
+      appraiser: "user-1",
+    });
+
+    expect(document).toMatchObject({
+      objectName: "clock",
+      estimatedValueMin: 10,
+      estimatedValueMax: 50,
+      currency: "EUR",
+      rulesVersion: 7,
+      appraiser: "user-1",
+    });
+  });
+});
+
+describe("listCategories", () => {
+  it("lists every category once, alphabetically", () => {
+    expect(listCategories(RULES)).toEqual(["Decor", "Instruments", "Miscellaneous", "Timepieces"]);
+  });
+});
+
+describe("formatValueRange", () => {
+  it("formats a range, or a single amount", () => {
+    expect(formatValueRange({ min: 40, max: 1500, currency: "USD" })).toBe("$40–$1,500");
+    expect(formatValueRange({ min: 5, max: 5, currency: "USD" })).toBe("$5");
+  });
+});
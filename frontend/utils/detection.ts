@@ -0,0 +1,132 @@
+import { LabelMap, labelFor } from "./labelMap";
+
+/** An axis-aligned box, (x1, y1) top-left and (x2, y2) bottom-right. */
+export interface Box {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/** A fine-grained label from an image classifier, e.g. mobilenet. */
+export interface ClassifierLabel {
+  className: string;
+  probability: number;
+}
+
+/** A single detected object. */
+export interface Detection {
+  box: Box;
+  score: number;
+  classId: number;
+  label: string;
+  /** Fine-grained labels for the cropped box, most probable first. */
+  labels?: ClassifierLabel[];
+}
+
+/**
+ * How an original photo was turned into the model input: scaled by
+ * `scaleX`/`scaleY`, then offset by `padX`/`padY` pixels of padding.
+ */
+export interface ImageTransform {
+  sourceWidth: number;
+  sourceHeight: number;
+  scaleX: number;
+  scaleY: number;
+  padX: number;
+  padY: number;
+}
+
+/**
+ * Describes an aspect-preserving resize of a `sourceWidth` x `sourceHeight`
+ * image into a `targetWidth` x `targetHeight` input, with the leftover space
+ * padded equally on both sides (letterboxing).
+ */
+export function computeLetterbox(
+  sourceWidth: number,
+  sourceHeight: number,
+  targetWidth: number,
+  targetHeight: number
+): ImageTransform {
+  const scale = Math.min(targetWidth / sourceWidth, targetHeight / sourceHeight);
+  const resizedWidth = Math.round(sourceWidth * scale);
+  const resizedHeight = Math.round(sourceHeight * scale);
+  return {
+    sourceWidth,
+    sourceHeight,
+    scaleX: scale,
+    scaleY: scale,
+    padX: Math.floor((targetWidth - resizedWidth) / 2),
+    padY: Math.floor((targetHeight - resizedHeight) / 2),
+  };
+}
+
+/** Describes a plain (stretching) resize with no padding. */
+export function computeResize(
+  sourceWidth: number,
+  sourceHeight: number,
+  targetWidth: number,
+  targetHeight: number
+): ImageTransform {
+  return {
+    sourceWidth,
+    sourceHeight,
+    scaleX: targetWidth / sourceWidth,
+    scaleY: targetHeight / sourceHeight,
+    padX: 0,
+    padY: 0,
+  };
+}
+
+const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+
+/**
+ * Maps a box from model input space back to original photo pixels, undoing
+ * the resize and padding. The result is clamped to the photo bounds.
+ */
+export function mapBoxToImage(box: Box, transform: ImageTransform): Box {
+  const { scaleX, scaleY, padX, padY, sourceWidth, sourceHeight } = transform;
+  return {
+    x1: clamp((box.x1 - padX) / scaleX, sourceWidth),
+    y1: clamp((box.y1 - padY) / scaleY, sourceHeight),
+    x2: clamp((box.x2 - padX) / scaleX, sourceWidth),
+    y2: clamp((box.y2 - padY) / scaleY, sourceHeight),
+  };
+}
+
+/** Maps every detection's box back to original photo pixels. */
+export function mapDetectionsToImage(
+  detections: Detection[],
+  transform: ImageTransform
+): Detection[] {
+  return detections.map((detection) => ({
+    ...detection,
+    box: mapBoxToImage(detection.box, transform),
+  }));
+}
+
+/**
+ * Scales a box from one coordinate space to another, e.g. from photo pixels
+ * to the on-screen size of a preview.
+ */
+export function scaleBox(box: Box, scaleX: number, scaleY: number): Box {
+  return {
+    x1: box.x1 * scaleX,
+    y1: box.y1 * scaleY,
+    x2: box.x2 * scaleX,
+    y2: box.y2 * scaleY,
+  };
+}
+
+/**
+ * Builds a detection from an [x1, y1, x2, y2, score, class] row.
+ */
+export function toDetection(row: number[], labels?: LabelMap): Detection {
+  const classId = row[5];
+  return {
+    box: { x1: row[0], y1: row[1], x2: row[2], y2: row[3] },
+    score: row[4],
+    classId,
+    label: labelFor(labels, classId),
+  };
+}
@@ -0,0 +1,85 @@
+import { CocoGroundTruth, CocoPrediction, averagePrecision, evaluateDetections, toCocoPredictions } from "./evaluation";
+import { nonMaxSuppression } from "./nonMaxSuppression";
+import groundTruthJson from "./__fixtures__/coco/groundTruth.json";
+import predictionsJson from "./__fixtures__/coco/predictions.json";
+import rawOutputs from "./__fixtures__/coco/rawOutputs.json";
+
+const groundTruth = groundTruthJson as CocoGroundTruth;
+const predictions = predictionsJson as CocoPrediction[];
+
+// The raw rows have two class columns; the fixture's categories are 1 and 2.
+const CATEGORY_IDS = [1, 2];
+
+const runPipeline = () =>
+  rawOutputs.flatMap(({ image_id, numBoxes, stride, data }) =>
+    toCocoPredictions(
+      image_id,
+      nonMaxSuppression(Float32Array.from(data), { numBoxes, stride, conf_thresh: 0.25, iou_thresh: 0.45 }),
+      (detection) => CATEGORY_IDS[detection.classId]
+    )
+  );
+
+describe("averagePrecision", () => {
+  it("is 1 for a curve that reaches full recall at full precision", () => {
+    expect(averagePrecision({ recall: [0.5, 1], precision: [1, 1], scores: [0.9, 0.8] })).toBe(1);
+  });
+
+  it("counts only the recall levels that were reached", () => {
+    // Recall levels 0 to 0.5 inclusive: 51 of 101 points.
+    expect(averagePrecision({ recall: [0.5], precision: [1], scores: [0.9] })).toBeCloseTo(51 / 101);
+  });
+});
+
+describe("evaluateDetections", () => {
+  it("scores the checked-in predictions", () => {
+    const result = evaluateDetections(groundTruth, predictions);
+
+    expect(result.map50).toBeCloseTo(1);
+    expect(result.map).toBeCloseTo(0.77604, 4);
+    expect(result.classes.map(({ categoryId, numPredictions }) => [categoryId, numPredictions])).toEqual([
+      [1, 12],
+      [2, 7],
+    ]);
+    expect(result.classes[0].ap).toBeCloseTo(0.69663, 4);
+    expect(result.classes[1].ap).toBeCloseTo(0.85545, 4);
+  });
+
+  it("scores raw model output after NMS like the checked-in predictions", () => {
+    const pipeline = runPipeline();
+    expect(pipeline).toHaveLength(predictions.length);
+
+    const result = evaluateDetections(groundTruth, pipeline);
+    expect(result.map50).toBeCloseTo(1);
+    expect(result.map).toBeCloseTo(0.77604, 4);
+  });
+
+  it("misattributes classes without a category mapping", () => {
+    const unmapped = rawOutputs.flatMap(({ image_id, numBoxes, stride, data }) =>
+      toCocoPredictions(
+        image_id,
+        nonMaxSuppression(Float32Array.from(data), { numBoxes, stride, conf_thresh: 0.25 })
+      )
+    );
+    // By default class 0 maps to category 0, which the fixture doesn't have,
+    // and class 1 lands on category 1.
+    const result = evaluateDetections(groundTruth, unmapped);
+    expect(result.classes.map(({ numPredictions }) => numPredictions)).toEqual([7, 0]);
+    expect(result.map).toBeLessThan(0.5);
+  });
+
+  it("treats a crowd region as neither hit nor miss", () => {
+    const crowd: CocoGroundTruth = {
+      images: [{ id: 1 }],
+      annotations: [
+        { id: 1, image_id: 1, category_id: 1, bbox: [0, 0, 10, 10] },
+        { id: 2, image_id: 1, category_id: 1, bbox: [50, 50, 40, 40], iscrowd: 1 },
+      ],
+      categories: [{ id: 1, name: "thing" }],
+    };
+    const result = evaluateDetections(crowd, [
+      { image_id: 1, category_id: 1, bbox: [60, 60, 10, 10], score: 0.9 },
+      { image_id: 1, category_id: 1, bbox: [0, 0, 10, 10], score: 0.8 },
+    ]);
+    expect(result.map).toBe(1);
+  });
+});
@@ -0,0 +1,238 @@
+import { Detection } from "./detection";
+
+/** A COCO bounding box: [x, y, width, height] from the top-left corner. */
+export type CocoBox = [number, number, number, number];
+
+/** Ground truth in the COCO annotation file format. */
+export interface CocoGroundTruth {
+  images: { id: number; file_name?: string; width?: number; height?: number }[];
+  annotations: {
+    id: number;
+    image_id: number;
+    category_id: number;
+    bbox: CocoBox;
+    /** Crowd regions may be matched by predictions but never count against them. */
+    iscrowd?: 0 | 1;
+  }[];
+  categories: { id: number; name: string }[];
+}
+
+/** A prediction in the COCO results file format. */
+export interface CocoPrediction {
+  image_id: number;
+  category_id: number;
+  bbox: CocoBox;
+  score: number;
+}
+
+/** Precision at each recall level, as predictions are taken in score order. */
+export interface PrecisionRecallCurve {
+  recall: number[];
+  precision: number[];
+  /** Score of the prediction that produced each point. */
+  scores: number[];
+}
+
+export interface ClassEvaluation {
+  categoryId: number;
+  name: string;
+  numGroundTruth: number;
+  numPredictions: number;
+  /** AP at IoU 0.5. */
+  ap50: number;
+  /** AP averaged over IoU 0.5 to 0.95 in steps of 0.05. */
+  ap: number;
+  /** Precision/recall curve at IoU 0.5. */
+  curve: PrecisionRecallCurve;
+}
+
+export interface EvaluationResult {
+  classes: ClassEvaluation[];
+  /** Mean of `ap50` over classes that have ground truth. */
+  map50: number;
+  /** Mean of `ap` over classes that have ground truth, COCO's headline number. */
+  map: number;
+}
+
+export interface EvaluationOptions {
+  /** IoU thresholds to average AP over. Defaults to 0.5:0.05:0.95. */
+  iouThresholds?: number[];
+  /** Only the top-scoring predictions per image and class are considered. */
+  maxDetections?: number;
+}
+
+const COCO_IOU_THRESHOLDS = Array.from({ length: 10 }, (_, i) => 0.5 + i * 0.05);
+const RECALL_POINTS = Array.from({ length: 101 }, (_, i) => i / 100);
+
+function boxIou(a: CocoBox, b: CocoBox, isCrowd: boolean): number {
+  const intersectionWidth = Math.max(0, Math.min(a[0] + a[2], b[0] + b[2]) - Math.max(a[0], b[0]));
+  const intersectionHeight = Math.max(0, Math.min(a[1] + a[3], b[1] + b[3]) - Math.max(a[1], b[1]));
+  const intersectionArea = intersectionWidth * intersectionHeight;
+  // As in pycocotools, overlap with a crowd region is measured against the
+  // prediction's own area.
+  const unionArea = isCrowd ? a[2] * a[3] : a[2] * a[3] + b[2] * b[3] - intersectionArea;
+  return unionArea > 0 ? intersectionArea / unionArea : 0;
+}
+
+/**
+ * Matches score-sorted predictions of one class against its ground truth at
+ * a single IoU threshold, and returns the resulting precision/recall curve.
+ */
+function matchClass(
+  predictions: CocoPrediction[],
+  groundTruth: CocoGroundTruth["annotations"],
+  iouThreshold: number
+): PrecisionRecallCurve {
+  const byImage = new Map<number, CocoGroundTruth["annotations"]>();
+  for (const annotation of groundTruth) {
+    const list = byImage.get(annotation.image_id) ?? [];
+    list.push(annotation);
+    byImage.set(annotation.image_id, list);
+  }
+  const numPositives = groundTruth.filter((annotation) => !annotation.iscrowd).length;
+  const matched = new Set<number>();
+
+  const curve: PrecisionRecallCurve = { recall: [], precision: [], scores: [] };
+  let truePositives = 0;
+  let falsePositives = 0;
+
+  for (const prediction of predictions) {
+    const candidates = byImage.get(prediction.image_id) ?? [];
+    const bestMatch = (crowd: boolean) => {
+      let bestIou = iouThreshold;
+      let best: number | null = null;
+      for (const annotation of candidates) {
+        if (!!annotation.iscrowd !== crowd || matched.has(annotation.id)) continue;
+        const iou = boxIou(prediction.bbox, annotation.bbox, crowd);
+        if (iou >= bestIou) {
+          bestIou = iou;
+          best = annotation.id;
+        }
+      }
+      return best;
+    };
+
+    // Prefer an unmatched regular annotation. A prediction that only lands
+    // on a crowd region is ignored: neither a hit nor a miss.
+    const hit = bestMatch(false);
+    if (hit !== null) {
+      matched.add(hit);
+      truePositives++;
+    } else if (bestMatch(true) !== null) {
+      continue;
+    } else {
+      falsePositives++;
+    }
+
+    curve.recall.push(numPositives > 0 ? truePositives / numPositives : 0);
+    curve.precision.push(truePositives / (truePositives + falsePositives));
+    curve.scores.push(prediction.score);
+  }
+
+  return curve;
+}
+
+/**
+ * Average precision of a curve, using COCO's 101-point interpolation: the
+ * mean over recall levels 0, 0.01, ..., 1 of the best precision reached at
+ * that recall or beyond.
+ */
+export function averagePrecision({ recall, precision }: PrecisionRecallCurve): number {
+  // Make precision monotonically decreasing, from the right.
+  const envelope = [...precision];
+  for (let i = envelope.length - 2; i >= 0; i--) {
+    envelope[i] = Math.max(envelope[i], envelope[i + 1]);
+  }
+
+  let sum = 0;
+  let index = 0;
+  for (const level of RECALL_POINTS) {
+    while (index < recall.length && recall[index] < level) index++;
+    sum += index < recall.length ? envelope[index] : 0;
+  }
+  return sum / RECALL_POINTS.length;
+}
+
+/**
+ * Evaluates predictions against ground truth, both in COCO JSON format.
+ *
+ * A small fixture set lives in `utils/__fixtures__/coco`: COCO ground truth,
+ * COCO predictions, and the raw pre-NMS model rows per image
+ * (`rawOutputs.json`), so a change to post-processing can be scored by
+ * running the raw rows through `nonMaxSuppression` and `toCocoPredictions`.
+ */
+export function evaluateDetections(
+  groundTruth: CocoGroundTruth,
+  predictions: CocoPrediction[],
+  { iouThresholds = COCO_IOU_THRESHOLDS, maxDetections = 100 }: EvaluationOptions = {}
+): EvaluationResult {
+  const imageIds = new Set(groundTruth.images.map((image) => image.id));
+
+  const classes = groundTruth.categories.map(({ id, name }): ClassEvaluation => {
+    const annotations = groundTruth.annotations.filter(
+      (annotation) => annotation.category_id === id && imageIds.has(annotation.image_id)
+    );
+
+    // Keep the top `maxDetections` per image, then rank the class globally.
+    const perImage = new Map<number, CocoPrediction[]>();
+    for (const prediction of predictions) {
+      if (prediction.category_id !== id || !imageIds.has(prediction.image_id)) continue;
+      const list = perImage.get(prediction.image_id) ?? [];
+      list.push(prediction);
+      perImage.set(prediction.image_id, list);
+    }
+    const ranked = [...perImage.values()]
+      .flatMap((list) => list.sort((a, b) => b.score - a.score).slice(0, maxDetections))
+      .sort((a, b) => b.score - a.score);
+
+    const curves = iouThresholds.map((threshold) => matchClass(ranked, annotations, threshold));
+    const aps = curves.map(averagePrecision);
+    const ap50Index = iouThresholds.findIndex((threshold) => Math.abs(threshold - 0.5) < 1e-9);
+    const curve50 = ap50Index >= 0 ? curves[ap50Index] : matchClass(ranked, annotations, 0.5);
+
+    return {
+      categoryId: id,
+      name,
+      numGroundTruth: annotations.filter((annotation) => !annotation.iscrowd).length,
+      numPredictions: ranked.length,
+      ap50: ap50Index >= 0 ? aps[ap50Index] : averagePrecision(curve50),
+      ap: aps.reduce((sum, value) => sum + value, 0) / Math.max(aps.length, 1),
+      curve: curve50,
+    };
+  });
+
+  const scored = classes.filter((evaluation) => evaluation.numGroundTruth > 0);
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  return {
+    classes,
+    map50: mean(scored.map((evaluation) => evaluation.ap50)),
+    map: mean(scored.map((evaluation) => evaluation.ap)),
+  };
+}
+
+/**
+ * Converts detections for one image into COCO predictions, so the output of
+ * the detection pipeline can be evaluated directly.
+ *
+ * @param categoryIdFor Maps a detection to its COCO category id. Defaults
+ *                      to the detection's class id.
+ */
+export function toCocoPredictions(
+  imageId: number,
+  detections: Detection[],
+  categoryIdFor: (detection: Detection) => number = (detection) => detection.classId
+): CocoPrediction[] {
+  return detections.map((detection) => ({
+    image_id: imageId,
+    category_id: categoryIdFor(detection),
+    bbox: [
+      detection.box.x1,
+      detection.box.y1,
+      detection.box.x2 - detection.box.x1,
+      detection.box.y2 - detection.box.y1,
+    ],
+    score: detection.score,
+  }));
+}
@@ -0,0 +1,20 @@
+import { labelFor, loadLabelMap } from "./labelMap";
+
+describe("loadLabelMap", () => {
+  it("keeps line positions as class ids in plain text", () => {
+    const labels = loadLabelMap("person\n\ncar\r\n\n");
+    expect([...labels]).toEqual([
+      [0, "person"],
+      [2, "car"],
+    ]);
+    expect(labelFor(labels, 1)).toBe("class 1");
+  });
+
+  it("reads JSON arrays and objects", () => {
+    expect([...loadLabelMap('["a", "b"]')]).toEqual([
+      [0, "a"],
+      [1, "b"],
+    ]);
+    expect([...loadLabelMap('{ "3": "c" }')]).toEqual([[3, "c"]]);
+  });
+});
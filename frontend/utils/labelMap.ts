@@ -0,0 +1,74 @@
+/** Maps a model class index to a human readable name. */
+export type LabelMap = ReadonlyMap<number, string>;
+
+/** The 80 COCO class names, in the order COCO-trained models emit them. */
+export const COCO_CLASSES: readonly string[] = [
+  "person", "bicycle", "car", "motorcycle", "airplane", "bus", "train", "truck",
+  "boat", "traffic light", "fire hydrant", "stop sign", "parking meter", "bench",
+  "bird", "cat", "dog", "horse", "sheep", "cow", "elephant", "bear", "zebra",
+  "giraffe", "backpack", "umbrella", "handbag", "tie", "suitcase", "frisbee",
+  "skis", "snowboard", "sports ball", "kite", "baseball bat", "baseball glove",
+  "skateboard", "surfboard", "tennis racket", "bottle", "wine glass", "cup",
+  "fork", "knife", "spoon", "bowl", "banana", "apple", "sandwich", "orange",
+  "broccoli", "carrot", "hot dog", "pizza", "donut", "cake", "chair", "couch",
+  "potted plant", "bed", "dining table", "toilet", "tv", "laptop", "mouse",
+  "remote", "keyboard", "cell phone", "microwave", "oven", "toaster", "sink",
+  "refrigerator", "book", "clock", "vase", "scissors", "teddy bear",
+  "hair drier", "toothbrush",
+];
+
+/**
+ * Builds a label map from one of the formats class lists usually ship in:
+ *
+ * - an array of names, where the index is the class id
+ * - an object keyed by class id, e.g. `{ "0": "person" }`
+ * - the text of either of the above as JSON
+ * - plain text with one name per line, where line n names class n; a blank
+ *   line leaves its id unnamed, and trailing blank lines are ignored
+ *
+ * @throws If a JSON source is neither an array nor an object of names.
+ */
+export function loadLabelMap(
+  source: readonly string[] | Record<string, string> | string
+): LabelMap {
+  if (typeof source === "string") {
+    const text = source.trim();
+    if (text.startsWith("[") || text.startsWith("{")) {
+      return loadLabelMap(JSON.parse(text));
+    }
+    // Dropping blank lines would shift every later class id.
+    const lines = source.split(/\r?\n/).map((line) => line.trim());
+    while (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+    const map = new Map<number, string>();
+    lines.forEach((name, id) => {
+      if (name) map.set(id, name);
+    });
+    return map;
+  }
+
+  if (Array.isArray(source)) {
+    return new Map(source.map((name, id) => [id, String(name)]));
+  }
+
+  if (source && typeof source === "object") {
+    const map = new Map<number, string>();
+    for (const [key, name] of Object.entries(source)) {
+      const id = Number(key);
+      if (!Number.isInteger(id) || typeof name !== "string") {
+        throw new Error(`loadLabelMap: invalid entry "${key}"`);
+      }
+      map.set(id, name);
+    }
+    return map;
+  }
+
+  throw new Error("loadLabelMap: unsupported label source");
+}
+
+/** Label map for models trained on COCO. */
+export const COCO_LABELS: LabelMap = loadLabelMap(COCO_CLASSES);
+
+/** Looks up a class name, falling back to `class <id>` for unknown ids. */
+export function labelFor(labels: LabelMap | undefined, classId: number): string {
+  return labels?.get(classId) ?? `class ${classId}`;
+}
@@ -0,0 +1,52 @@
+import { nonMaxSuppression } from "./nonMaxSuppression";
+
+// Rows are [x, y, w, h, objectness, class_0, class_1].
+const output = (rows: number[][]) => ({
+  data: Float32Array.from(rows.flat()),
+  numBoxes: rows.length,
+});
+
+describe("nonMaxSuppression", () => {
+  it("scores a row as objectness times its best class", () => {
+    const { data, numBoxes } = output([[50, 50, 20, 10, 0.9, 0.2, 0.8]]);
+    const [detection] = nonMaxSuppression(data, { numBoxes, conf_thresh: 0.5 });
+
+    expect(detection.classId).toBe(1);
+    expect(detection.score).toBeCloseTo(0.72);
+  });
+
+  it("drops rows whose objectness or combined score is below conf_thresh", () => {
+    const { data, numBoxes } = output([
+      [10, 10, 4, 4, 0.4, 1, 0], // objectness too low
+      [30, 30, 4, 4, 0.9, 0.5, 0.1], // 0.45 after scaling by objectness
+      [50, 50, 4, 4, 0.9, 0.1, 0.9], // 0.81
+    ]);
+    const detections = nonMaxSuppression(data, { numBoxes, conf_thresh: 0.5 });
+
+    expect(detections).toHaveLength(1);
+    expect(detections[0].score).toBeCloseTo(0.81);
+  });
+
+  it("converts centre boxes to corners", () => {
+    const { data, numBoxes } = output([[50, 40, 20, 10, 1, 1, 0]]);
+    const [{ box }] = nonMaxSuppression(data, { numBoxes });
+
+    expect(box).toEqual({ x1: 40, y1: 35, x2: 60, y2: 45 });
+  });
+
+  it("returns detections sorted by descending score", () => {
+    const { data, numBoxes } = output([
+      [10, 10, 4, 4, 0.6, 1, 0],
+      [50, 50, 4, 4, 1, 1, 0],
+      [90, 90, 4, 4, 0.8, 1, 0],
+    ]);
+    const detections = nonMaxSuppression(data, { numBoxes });
+
+    expect(detections.map(({ box }) => box.x1)).toEqual([48, 88, 8]);
+  });
+
+  it("rejects data shorter than numBoxes rows", () => {
+    const { data } = output([[50, 50, 4, 4, 1, 1, 0]]);
+    expect(() => nonMaxSuppression(data, { numBoxes: 2, stride: 7 })).toThrow("expected 14 values");
+  });
+});
@@ -1,82 +1,172 @@
-// Converts a box from [x, y, w, h] format to [x1, y1, x2, y2] format,
-// where (x1, y1) is the top-left and (x2, y2) is the bottom-right.
-function xywh2xyxy(x: number[]): number[] {
-    const y: number[] = [];
-    y[0] = x[0] - x[2] / 2; // top left x
-    y[1] = x[1] - x[3] / 2; // top left y
-    y[2] = x[0] + x[2] / 2; // bottom right x
-    y[3] = x[1] + x[3] / 2; // bottom right y
-    return y;
-  }
-  
+import { Detection, toDetection } from "./detection";
+import { LabelMap } from "./labelMap";
+import {
+  CandidateSet,
+  SuppressionStrategyName,
+  suppressionStrategies,
+} from "./suppressionStrategies";
+
+/**
+ * Options for {@link nonMaxSuppression}.
+ *
+ * The raw model output is expected to be a flat, row-major `Float32Array`
+ * (what TF.js `dataSync()` returns) holding `numBoxes` rows of `stride` values:
+ * `[x, y, w, h, objectness, class_0, class_1, ...]`.
+ */
+export interface NmsOptions {
+  /** Number of rows (anchors) in the output. */
+  numBoxes: number;
+  /** Number of values per row. Defaults to `data.length / numBoxes`. */
+  stride?: number;
   /**
-   * Applies non-maximum suppression (NMS) to filter overlapping detections.
-   *
-   * @param res An array of detections. Each detection is an array of numbers where:
-   *            indices [0,1,2,3] are box parameters in [x, y, w, h] format,
-   *            index 4 is the object confidence score, and indices [5, ...] are class confidences.
-   * @param conf_thresh Confidence threshold to filter boxes.
-   * @param iou_thresh IoU threshold for suppression.
-   * @param max_det Maximum number of detections to return (not used in this implementation).
-   * @returns An array of selected detections, where each detection is an array:
-   *          [x, y, w, h, score, class]
+   * Minimum score for a box to be returned. With Soft-NMS it also applies to
+   * scores after decay, so a box decayed below it is dropped.
    */
-  export function nonMaxSuppression(
-    res: number[][],
-    conf_thresh: number = 0.50,
-    iou_thresh: number = 0.2,
-    max_det: number = 300
-  ): number[][] {
-    const selectedDetections: number[][] = [];
-  
-    for (let i = 0; i < res.length; i++) {
-      // Check if the box has sufficient confidence score.
-      if (res[i][4] < conf_thresh) {
-        continue;
-      }
-  
-      const box: number[] = res[i].slice(0, 4);
-      const clsDetections: number[] = res[i].slice(5);
-      const klass: number = clsDetections.reduce(
-        (imax, x, idx, arr) => (x > arr[imax] ? idx : imax),
-        0
-      );
-      const score: number = res[i][klass + 5];
-  
-      const object: number[] = xywh2xyxy(box);
-      let addBox: boolean = true;
-  
-      // Check for overlap with previously selected boxes.
-      for (let j = 0; j < selectedDetections.length; j++) {
-        // Extract only the [x, y, w, h] from the previously selected detection.
-        const selectedBox = xywh2xyxy(selectedDetections[j].slice(0, 4));
-  
-        // Calculate the intersection and union of the two boxes.
-        const intersectionXmin = Math.max(object[0], selectedBox[0]);
-        const intersectionYmin = Math.max(object[1], selectedBox[1]);
-        const intersectionXmax = Math.min(object[2], selectedBox[2]);
-        const intersectionYmax = Math.min(object[3], selectedBox[3]);
-        const intersectionWidth = Math.max(0, intersectionXmax - intersectionXmin);
-        const intersectionHeight = Math.max(0, intersectionYmax - intersectionYmin);
-        const intersectionArea = intersectionWidth * intersectionHeight;
-        const boxArea = (object[2] - object[0]) * (object[3] - object[1]);
-        const selectedBoxArea = (selectedBox[2] - selectedBox[0]) * (selectedBox[3] - selectedBox[1]);
-        const unionArea = boxArea + selectedBoxArea - intersectionArea;
-  
-        // Calculate the IoU and check if the boxes overlap.
-        const iou = intersectionArea / unionArea;
-        if (iou >= iou_thresh) {
-          addBox = false;
-          break;
-        }
-      }
-  
-      // If the box passed the overlap check, add it to the list.
-      if (addBox) {
-        const row = box.concat(score, klass);
-        selectedDetections.push(row);
+  conf_thresh?: number;
+  /** IoU above which two boxes are considered the same object. */
+  iou_thresh?: number;
+  /** Maximum number of detections to return. */
+  max_det?: number;
+  /** Suppress across classes instead of only within the same class. */
+  agnostic?: boolean;
+  /** Only the highest-scoring candidates are kept before suppression runs. */
+  max_candidates?: number;
+  /** How overlapping boxes are resolved. Defaults to hard NMS. */
+  strategy?: SuppressionStrategyName;
+  /** Spread of the penalty for the "soft-gaussian" strategy. */
+  sigma?: number;
+  /**
+   * Soft-NMS stops considering boxes whose decayed score falls below this.
+   * Only matters when it's above `conf_thresh`.
+   */
+  soft_thresh?: number;
+  /** Names for the class indices, used for each detection's `label`. */
+  labels?: LabelMap;
+}
+
+// Converts the [x, y, w, h] box starting at `data[base]` to [x1, y1, x2, y2]
+// format, where (x1, y1) is the top-left and (x2, y2) is the bottom-right, and
+// writes it to `out` from `offset` on.
+function xywh2xyxy(data: Float32Array, base: number, out: Float32Array, offset: number): void {
+  const halfWidth = data[base + 2] / 2;
+  const halfHeight = data[base + 3] / 2;
+  out[offset] = data[base] - halfWidth; // top left x
+  out[offset + 1] = data[base + 1] - halfHeight; // top left y
+  out[offset + 2] = data[base] + halfWidth; // bottom right x
+  out[offset + 3] = data[base + 1] + halfHeight; // bottom right y
+}
+
+/**
+ * Applies non-maximum suppression (NMS) to filter overlapping detections.
+ *
+ * A row's score is its objectness multiplied by its best class confidence.
+ * Candidates are visited from the highest score down, so a weak box can never
+ * suppress a stronger one. Unless `agnostic` is set, boxes only suppress
+ * boxes of the same class. The `strategy` option picks between hard NMS,
+ * linear or Gaussian Soft-NMS, DIoU-NMS and weighted box fusion.
+ *
+ * @param data Flat model output, see {@link NmsOptions}.
+ * @param options Layout of `data` and suppression thresholds.
+ * @returns The selected detections sorted by descending score, with boxes
+ *          in model input coordinates (see `mapDetectionsToImage`).
+ */
+export function nonMaxSuppression(
+  data: Float32Array,
+  {
+    numBoxes,
+    stride = numBoxes > 0 ? data.length / numBoxes : 0,
+    conf_thresh = 0.5,
+    iou_thresh = 0.2,
+    max_det = 300,
+    agnostic = false,
+    max_candidates = 30000,
+    strategy = "hard",
+    sigma = 0.5,
+    soft_thresh = 0.001,
+    labels,
+  }: NmsOptions
+): Detection[] {
+  if (numBoxes <= 0 || max_det <= 0) {
+    return [];
+  }
+  if (!Number.isInteger(stride) || stride < 5) {
+    throw new Error(`nonMaxSuppression: invalid stride ${stride}`);
+  }
+  if (numBoxes * stride > data.length) {
+    throw new Error(
+      `nonMaxSuppression: expected ${numBoxes * stride} values, got ${data.length}`
+    );
+  }
+  const suppress = suppressionStrategies[strategy];
+  if (!suppress) {
+    throw new Error(`nonMaxSuppression: unknown strategy "${strategy}"`);
+  }
+
+  const numClasses = stride - 5;
+  const rowScores = new Float32Array(numBoxes);
+  const rowClasses = new Int32Array(numBoxes);
+  let candidates: number[] = [];
+
+  // Score every row and drop the ones below the confidence threshold.
+  for (let row = 0; row < numBoxes; row++) {
+    const base = row * stride;
+    const objectness = data[base + 4];
+    if (objectness < conf_thresh) {
+      continue;
+    }
+
+    let klass = 0;
+    let best = numClasses > 0 ? data[base + 5] : 1;
+    for (let c = 1; c < numClasses; c++) {
+      const value = data[base + 5 + c];
+      if (value > best) {
+        best = value;
+        klass = c;
       }
     }
-  
-    return selectedDetections;
-  }  
\ No newline at end of file
+
+    const score = objectness * best;
+    if (score < conf_thresh) {
+      continue;
+    }
+    rowScores[row] = score;
+    rowClasses[row] = klass;
+    candidates.push(row);
+  }
+
+  candidates.sort((a, b) => rowScores[b] - rowScores[a]);
+  if (candidates.length > max_candidates) {
+    candidates = candidates.slice(0, max_candidates);
+  }
+
+  // Pack the survivors so the strategies only ever touch typed arrays.
+  const count = candidates.length;
+  const set: CandidateSet = {
+    count,
+    corners: new Float32Array(count * 4),
+    areas: new Float32Array(count),
+    scores: new Float32Array(count),
+    classes: new Int32Array(count),
+  };
+  for (let i = 0; i < count; i++) {
+    const row = candidates[i];
+    const corner = i * 4;
+    xywh2xyxy(data, row * stride, set.corners, corner);
+    set.areas[i] =
+      Math.max(0, set.corners[corner + 2] - set.corners[corner]) *
+      Math.max(0, set.corners[corner + 3] - set.corners[corner + 1]);
+    set.scores[i] = rowScores[row];
+    set.classes[i] = rowClasses[row];
+  }
+
+  const selectedDetections = suppress(set, {
+    conf_thresh,
+    iou_thresh,
+    max_det,
+    agnostic,
+    sigma,
+    soft_thresh,
+  });
+
+  return selectedDetections.map((row) => toDetection(row, labels));
+}
@@ -0,0 +1,129 @@
+import { nonMaxSuppression } from "./nonMaxSuppression";
+import {
+  CandidateSet,
+  SuppressionParams,
+  diouNms,
+  hardNms,
+  softNms,
+  weightedBoxFusion,
+} from "./suppressionStrategies";
+
+type Fixture = { box: [number, number, number, number]; score: number; klass: number };
+
+// Candidates must already be sorted by descending score.
+const candidates = (fixtures: Fixture[]): CandidateSet => ({
+  count: fixtures.length,
+  corners: Float32Array.from(fixtures.flatMap(({ box }) => box)),
+  areas: Float32Array.from(fixtures.map(({ box: [x1, y1, x2, y2] }) => (x2 - x1) * (y2 - y1))),
+  scores: Float32Array.from(fixtures.map(({ score }) => score)),
+  classes: Int32Array.from(fixtures.map(({ klass }) => klass)),
+});
+
+const params = (overrides: Partial<SuppressionParams> = {}): SuppressionParams => ({
+  conf_thresh: 0,
+  iou_thresh: 0.45,
+  max_det: 300,
+  agnostic: false,
+  sigma: 0.5,
+  soft_thresh: 0.001,
+  ...overrides,
+});
+
+// A and B overlap with IoU 81/119 ≈ 0.68; C is apart; D sits on B but is
+// another class.
+const OVERLAPPING = candidates([
+  { box: [0, 0, 10, 10], score: 0.9, klass: 0 },
+  { box: [1, 1, 11, 11], score: 0.8, klass: 0 },
+  { box: [20, 20, 30, 30], score: 0.7, klass: 0 },
+  { box: [1, 1, 11, 11], score: 0.6, klass: 1 },
+]);
+const IOU_AB = 81 / 119;
+
+const scoresOf = (rows: number[][]) => rows.map((row) => row[4]);
+
+describe("hardNms", () => {
+  it("drops overlapping boxes of the same class", () => {
+    const kept = hardNms(OVERLAPPING, params());
+    expect(scoresOf(kept)).toEqual([0.9, 0.7, 0.6].map(Math.fround));
+  });
+
+  it("suppresses across classes when agnostic", () => {
+    const kept = hardNms(OVERLAPPING, params({ agnostic: true }));
+    expect(scoresOf(kept)).toEqual([0.9, 0.7].map(Math.fround));
+  });
+
+  it("stops at max_det", () => {
+    expect(hardNms(OVERLAPPING, params({ max_det: 1 }))).toHaveLength(1);
+  });
+});
+
+describe("softNms", () => {
+  it("linear decays an overlapping box by 1 - IoU", () => {
+    const kept = softNms("linear")(OVERLAPPING, params());
+    expect(kept.map((row) => row[5])).toEqual([0, 0, 1, 0]);
+    expect(kept[3][4]).toBeCloseTo(0.8 * (1 - IOU_AB), 5);
+  });
+
+  it("gaussian decays an overlapping box by exp(-IoU² / sigma)", () => {
+    const kept = softNms("gaussian")(OVERLAPPING, params());
+    expect(kept).toHaveLength(4);
+    expect(kept[3][4]).toBeCloseTo(0.8 * Math.exp(-(IOU_AB * IOU_AB) / 0.5), 5);
+  });
+
+  it("drops boxes decayed below conf_thresh", () => {
+    const kept = softNms("linear")(OVERLAPPING, params({ conf_thresh: 0.5 }));
+    expect(scoresOf(kept)).toEqual([0.9, 0.7, 0.6].map(Math.fround));
+  });
+});
+
+describe("diouNms", () => {
+  // IoU 60/140 ≈ 0.43, but the centers are 4 apart in a 14x10 enclosing box,
+  // so DIoU ≈ 0.43 - 16/296 ≈ 0.37.
+  const ADJACENT = candidates([
+    { box: [0, 0, 10, 10], score: 0.9, klass: 0 },
+    { box: [4, 0, 14, 10], score: 0.8, klass: 0 },
+  ]);
+
+  it("keeps adjacent boxes that hard NMS would merge", () => {
+    expect(hardNms(ADJACENT, params({ iou_thresh: 0.4 }))).toHaveLength(1);
+    expect(diouNms(ADJACENT, params({ iou_thresh: 0.4 }))).toHaveLength(2);
+  });
+
+  it("still drops near-duplicates", () => {
+    expect(diouNms(ADJACENT, params({ iou_thresh: 0.3 }))).toHaveLength(1);
+  });
+});
+
+describe("weightedBoxFusion", () => {
+  it("fuses overlapping boxes into their score-weighted average", () => {
+    const fused = weightedBoxFusion(OVERLAPPING, params());
+    expect(fused).toHaveLength(3);
+
+    const [x1, y1, x2, y2, score, klass] = fused[0];
+    expect(x1).toBeCloseTo(0.8 / 1.7, 5);
+    expect(y1).toBeCloseTo(0.8 / 1.7, 5);
+    expect(x2).toBeCloseTo((10 * 0.9 + 11 * 0.8) / 1.7, 5);
+    expect(y2).toBeCloseTo((10 * 0.9 + 11 * 0.8) / 1.7, 5);
+    expect(score).toBeCloseTo(0.85, 5);
+    expect(klass).toBe(0);
+  });
+});
+
+describe("nonMaxSuppression", () => {
+  // Rows of [cx, cy, w, h, objectness, class_0].
+  const rows = (...boxes: number[][]) => Float32Array.from(boxes.flat());
+
+  it("suppresses at IoU 0.2 by default", () => {
+    // IoU 64/136 ≈ 0.47 for the first pair, 0 for the third box.
+    const data = rows([5, 5, 10, 10, 0.9, 1], [7, 7, 10, 10, 0.8, 1], [50, 50, 10, 10, 0.7, 1]);
+    const detections = nonMaxSuppression(data, { numBoxes: 3 });
+    expect(detections.map((detection) => detection.score)).toEqual([0.9, 0.7].map(Math.fround));
+  });
+
+  it("applies conf_thresh after Soft-NMS decay", () => {
+    const data = rows([5, 5, 10, 10, 0.9, 1], [6, 6, 10, 10, 0.8, 1]);
+    const options = { numBoxes: 2, strategy: "soft-linear" as const, iou_thresh: 0.45 };
+    expect(nonMaxSuppression(data, { ...options, conf_thresh: 0.5 })).toHaveLength(1);
+    expect(nonMaxSuppression(data, { ...options, conf_thresh: 0.2 })).toHaveLength(2);
+  });
+});
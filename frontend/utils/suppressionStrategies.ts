@@ -0,0 +1,260 @@
+/**
+ * Scored candidate boxes handed to a suppression strategy.
+ *
+ * Candidates are sorted by descending score. `corners` holds four values per
+ * candidate in [x1, y1, x2, y2] format.
+ */
+export interface CandidateSet {
+  count: number;
+  corners: Float32Array;
+  areas: Float32Array;
+  scores: Float32Array;
+  classes: Int32Array;
+}
+
+/** Tuning shared by every strategy. Not every strategy reads every field. */
+export interface SuppressionParams {
+  /** Lowest score returned; Soft-NMS applies it to decayed scores too. */
+  conf_thresh: number;
+  iou_thresh: number;
+  max_det: number;
+  agnostic: boolean;
+  /** Spread of the Gaussian Soft-NMS penalty. */
+  sigma: number;
+  /** Soft-NMS drops boxes whose decayed score falls below this. */
+  soft_thresh: number;
+}
+
+/**
+ * A suppression strategy returns the surviving boxes sorted by descending
+ * score, each as [x1, y1, x2, y2, score, class].
+ */
+export type SuppressionStrategy = (
+  candidates: CandidateSet,
+  params: SuppressionParams
+) => number[][];
+
+export type SuppressionStrategyName =
+  | "hard"
+  | "soft-linear"
+  | "soft-gaussian"
+  | "diou"
+  | "wbf";
+
+// Intersection over union of candidates i and j.
+function iou(set: CandidateSet, i: number, j: number): number {
+  const c = set.corners;
+  const intersectionWidth = Math.max(
+    0,
+    Math.min(c[i * 4 + 2], c[j * 4 + 2]) - Math.max(c[i * 4], c[j * 4])
+  );
+  const intersectionHeight = Math.max(
+    0,
+    Math.min(c[i * 4 + 3], c[j * 4 + 3]) - Math.max(c[i * 4 + 1], c[j * 4 + 1])
+  );
+  const intersectionArea = intersectionWidth * intersectionHeight;
+  const unionArea = set.areas[i] + set.areas[j] - intersectionArea;
+  return unionArea > 0 ? intersectionArea / unionArea : 0;
+}
+
+// IoU minus the squared center distance over the squared diagonal of the
+// smallest box enclosing both (Zheng et al., "Distance-IoU Loss").
+function diou(set: CandidateSet, i: number, j: number): number {
+  const c = set.corners;
+  const centerDx =
+    (c[i * 4] + c[i * 4 + 2]) / 2 - (c[j * 4] + c[j * 4 + 2]) / 2;
+  const centerDy =
+    (c[i * 4 + 1] + c[i * 4 + 3]) / 2 - (c[j * 4 + 1] + c[j * 4 + 3]) / 2;
+  const enclosingWidth =
+    Math.max(c[i * 4 + 2], c[j * 4 + 2]) - Math.min(c[i * 4], c[j * 4]);
+  const enclosingHeight =
+    Math.max(c[i * 4 + 3], c[j * 4 + 3]) - Math.min(c[i * 4 + 1], c[j * 4 + 1]);
+  const diagonal = enclosingWidth * enclosingWidth + enclosingHeight * enclosingHeight;
+  const distance = centerDx * centerDx + centerDy * centerDy;
+  return iou(set, i, j) - (diagonal > 0 ? distance / diagonal : 0);
+}
+
+function toRow(set: CandidateSet, i: number, score: number): number[] {
+  const c = set.corners;
+  return [c[i * 4], c[i * 4 + 1], c[i * 4 + 2], c[i * 4 + 3], score, set.classes[i]];
+}
+
+// Greedy suppression shared by hard NMS and DIoU-NMS: keep the best remaining
+// box and drop every later box whose overlap exceeds the threshold.
+function greedy(
+  set: CandidateSet,
+  params: SuppressionParams,
+  overlap: (set: CandidateSet, i: number, j: number) => number
+): number[][] {
+  const suppressed = new Uint8Array(set.count);
+  const kept: number[][] = [];
+
+  for (let i = 0; i < set.count && kept.length < params.max_det; i++) {
+    if (suppressed[i]) {
+      continue;
+    }
+    kept.push(toRow(set, i, set.scores[i]));
+
+    for (let j = i + 1; j < set.count; j++) {
+      if (suppressed[j]) {
+        continue;
+      }
+      if (!params.agnostic && set.classes[j] !== set.classes[i]) {
+        continue;
+      }
+      if (overlap(set, i, j) > params.iou_thresh) {
+        suppressed[j] = 1;
+      }
+    }
+  }
+
+  return kept;
+}
+
+/** Classic hard NMS: overlapping lower-scoring boxes are discarded. */
+export const hardNms: SuppressionStrategy = (set, params) =>
+  greedy(set, params, iou);
+
+/**
+ * DIoU-NMS: like hard NMS, but boxes whose centers are far apart survive
+ * even with a large overlap, which keeps adjacent objects apart.
+ */
+export const diouNms: SuppressionStrategy = (set, params) =>
+  greedy(set, params, diou);
+
+/**
+ * Soft-NMS (Bodla et al.): instead of discarding overlapping boxes, their
+ * scores are decayed and they stay in the running.
+ *
+ * @param method "linear" decays by (1 - IoU) once IoU exceeds the threshold,
+ *               "gaussian" decays every overlap by exp(-IoU² / sigma).
+ */
+export function softNms(method: "linear" | "gaussian"): SuppressionStrategy {
+  return (set, params) => {
+    // A decayed box is as good as gone once it's below the caller's threshold.
+    const floor = Math.max(params.soft_thresh, params.conf_thresh);
+    const scores = Float32Array.from(set.scores);
+    const done = new Uint8Array(set.count);
+    const kept: number[][] = [];
+
+    while (kept.length < params.max_det) {
+      // Scores change as we go, so the best remaining box has to be searched.
+      let best = -1;
+      for (let i = 0; i < set.count; i++) {
+        if (!done[i] && (best < 0 || scores[i] > scores[best])) {
+          best = i;
+        }
+      }
+      if (best < 0 || scores[best] < floor) {
+        break;
+      }
+
+      done[best] = 1;
+      kept.push(toRow(set, best, scores[best]));
+
+      for (let j = 0; j < set.count; j++) {
+        if (done[j]) {
+          continue;
+        }
+        if (!params.agnostic && set.classes[j] !== set.classes[best]) {
+          continue;
+        }
+
+        const overlap = iou(set, best, j);
+        if (method === "linear") {
+          if (overlap > params.iou_thresh) {
+            scores[j] *= 1 - overlap;
+          }
+        } else {
+          scores[j] *= Math.exp(-(overlap * overlap) / params.sigma);
+        }
+        if (scores[j] < floor) {
+          done[j] = 1;
+        }
+      }
+    }
+
+    return kept;
+  };
+}
+
+/**
+ * Weighted box fusion (Solovyev et al.): overlapping boxes are merged into
+ * one box whose corners are the score-weighted average of the cluster, and
+ * whose score is the cluster's mean score.
+ */
+export const weightedBoxFusion: SuppressionStrategy = (set, params) => {
+  // Each cluster tracks its members and the current fused box.
+  const clusters: { members: number[]; fused: number[]; klass: number }[] = [];
+
+  const fusedIou = (a: number[], i: number): number => {
+    const c = set.corners;
+    const intersectionWidth = Math.max(
+      0,
+      Math.min(a[2], c[i * 4 + 2]) - Math.max(a[0], c[i * 4])
+    );
+    const intersectionHeight = Math.max(
+      0,
+      Math.min(a[3], c[i * 4 + 3]) - Math.max(a[1], c[i * 4 + 1])
+    );
+    const intersectionArea = intersectionWidth * intersectionHeight;
+    const fusedArea = Math.max(0, a[2] - a[0]) * Math.max(0, a[3] - a[1]);
+    const unionArea = fusedArea + set.areas[i] - intersectionArea;
+    return unionArea > 0 ? intersectionArea / unionArea : 0;
+  };
+
+  for (let i = 0; i < set.count; i++) {
+    let match = -1;
+    let matchIou = params.iou_thresh;
+    for (let k = 0; k < clusters.length; k++) {
+      if (!params.agnostic && clusters[k].klass !== set.classes[i]) {
+        continue;
+      }
+      const overlap = fusedIou(clusters[k].fused, i);
+      if (overlap > matchIou) {
+        match = k;
+        matchIou = overlap;
+      }
+    }
+
+    if (match < 0) {
+      clusters.push({ members: [i], fused: toRow(set, i, set.scores[i]), klass: set.classes[i] });
+      continue;
+    }
+
+    // Recompute the fused box from every member of the cluster.
+    const cluster = clusters[match];
+    cluster.members.push(i);
+    let weight = 0;
+    const box = [0, 0, 0, 0];
+    for (const m of cluster.members) {
+      const s = set.scores[m];
+      weight += s;
+      for (let k = 0; k < 4; k++) {
+        box[k] += set.corners[m * 4 + k] * s;
+      }
+    }
+    cluster.fused = [
+      box[0] / weight,
+      box[1] / weight,
+      box[2] / weight,
+      box[3] / weight,
+      weight / cluster.members.length,
+      cluster.klass,
+    ];
+  }
+
+  return clusters
+    .map((cluster) => cluster.fused)
+    .sort((a, b) => b[4] - a[4])
+    .slice(0, params.max_det);
+};
+
+/** Every strategy selectable through `nonMaxSuppression`'s `strategy` option. */
+export const suppressionStrategies: Record<SuppressionStrategyName, SuppressionStrategy> = {
+  hard: hardNms,
+  "soft-linear": softNms("linear"),
+  "soft-gaussian": softNms("gaussian"),
+  diou: diouNms,
+  wbf: weightedBoxFusion,
+};